@@ -0,0 +1,61 @@
+import { writeFileSync } from 'node:fs';
+import process from 'node:process';
+import { URL } from 'node:url';
+
+// Regenerates src/data/umm-al-qura.json from the Umm al-Qura calendar in ICU
+// (Intl's islamic-umalqura), which follows the official month starts.
+const START_YEAR = 1356;
+const END_YEAR = 1500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Day number of 1970-01-01, counted like the table (Julian day number - 2400000).
+const UNIX_EPOCH_DAY = 40588;
+
+const formatter = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura-nu-latn', {
+  timeZone: 'UTC',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+});
+
+const toHijri = (time) => {
+  const parts = Object.fromEntries(
+    formatter.formatToParts(new Date(time)).map((part) => [part.type, part.value]),
+  );
+  return { year: parseInt(parts.year, 10), month: Number(parts.month), day: Number(parts.day) };
+};
+
+// Day numbers (Julian day number - 2400000) of every month start in range,
+// plus the start of the month after the last one.
+const starts = [];
+for (let time = Date.UTC(1936, 0, 1); time <= Date.UTC(2078, 0, 1); time += DAY_MS) {
+  const { year, month, day } = toHijri(time);
+  if (
+    day === 1 &&
+    year >= START_YEAR &&
+    (year <= END_YEAR || (year === END_YEAR + 1 && month === 1))
+  ) {
+    starts.push(time / DAY_MS + UNIX_EPOCH_DAY);
+  }
+}
+
+if (starts.length !== (END_YEAR - START_YEAR + 1) * 12 + 1) {
+  throw new Error(
+    `Expected every month from ${START_YEAR} to ${END_YEAR}, got ${starts.length - 1}`,
+  );
+}
+
+const monthLengths = {};
+for (let year = START_YEAR; year <= END_YEAR; year += 1) {
+  const offset = (year - START_YEAR) * 12;
+  monthLengths[year] = Array.from(
+    { length: 12 },
+    (_, idx) => starts[offset + idx + 1] - starts[offset + idx],
+  );
+}
+
+const rows = Object.entries(monthLengths).map(
+  ([year, lengths]) => `    "${year}": [${lengths.join(', ')}]`,
+);
+const json = `{\n  "startYear": ${START_YEAR},\n  "startMjdn": ${starts[0]},\n  "monthLengths": {\n${rows.join(',\n')}\n  }\n}\n`;
+writeFileSync(new URL('../src/data/umm-al-qura.json', import.meta.url), json);
+process.stdout.write(`Wrote ${END_YEAR - START_YEAR + 1} years starting at day ${starts[0]}.\n`);
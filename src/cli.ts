@@ -4,32 +4,75 @@ import pc from 'picocolors';
 
 import { registerAboutCommand } from './commands/about.js';
 import { registerBackfillCommand } from './commands/backfill.js';
+import { registerBackupCommand } from './commands/backup.js';
+import { registerCacheCommand } from './commands/cache.js';
 import { registerExportCommand } from './commands/export.js';
 import { registerFastCommand } from './commands/fast.js';
+import { registerFastsCommand } from './commands/fasts.js';
 import { registerHistoryCommand } from './commands/history.js';
 import { registerImportCommand } from './commands/import.js';
+import { registerLogCommand } from './commands/log.js';
 import { registerMarkCommand } from './commands/mark.js';
+import { registerNextCommand } from './commands/next.js';
+import { registerNotifyCommand } from './commands/notify.js';
+import { registerQadaCommand } from './commands/qada.js';
 import { registerRecapCommand } from './commands/recap.js';
 import { registerResetCommand } from './commands/reset.js';
 import { registerScheduleCommand } from './commands/schedule.js';
+import { registerTimetableCommand } from './commands/timetable.js';
+import { registerUndoCommand } from './commands/undo.js';
 import { ensureSetup } from './lib/setup.js';
+import { ensureDailyBackup, setChangeSource } from './lib/store.js';
 
 const program = new Command();
 
+const SETUP_EXEMPT_COMMANDS = [
+  'reset',
+  'export',
+  'import',
+  'about',
+  'cache clear',
+  'timetable show',
+  'timetable clear',
+  'notify stop',
+  'notify status',
+  'schedule uninstall-timers',
+  'log',
+  'undo',
+  'backup list',
+  'backup restore',
+  'backup prune',
+];
+
+const getCommandPath = (command?: Command): string => {
+  if (!command) return '';
+  const parent = command.parent;
+  return parent && parent !== program ? `${parent.name()} ${command.name()}` : command.name();
+};
+
 program
   .name('puasa-cli')
   .description('Ramadan and prayer attendance CLI')
   .version('0.1.0');
 
 registerScheduleCommand(program);
+registerNextCommand(program);
 registerMarkCommand(program);
 registerFastCommand(program);
+registerFastsCommand(program);
 registerBackfillCommand(program);
 registerHistoryCommand(program);
+registerLogCommand(program);
+registerUndoCommand(program);
 registerRecapCommand(program);
+registerQadaCommand(program);
 registerResetCommand(program);
 registerExportCommand(program);
 registerImportCommand(program);
+registerBackupCommand(program);
+registerCacheCommand(program);
+registerTimetableCommand(program);
+registerNotifyCommand(program);
 registerAboutCommand(program);
 
 const argv = process.argv.slice(2);
@@ -40,7 +83,9 @@ if (!wantsHelp && argv.length === 0) {
 }
 if (!wantsHelp) {
   program.hook('preAction', async (_thisCommand, actionCommand) => {
-    if (['reset', 'export', 'import', 'about'].includes(actionCommand?.name() ?? '')) {
+    setChangeSource(getCommandPath(actionCommand));
+    ensureDailyBackup();
+    if (SETUP_EXEMPT_COMMANDS.includes(getCommandPath(actionCommand))) {
       return;
     }
 
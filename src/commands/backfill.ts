@@ -2,49 +2,62 @@ import { cancel, confirm, intro, isCancel, multiselect, outro, text } from '@cla
 import type { Command } from 'commander';
 import pc from 'picocolors';
 
-import { getAttendance, PRAYERS, setAttendance, type PrayerName } from '../lib/store.js';
-import { isRamadanDate } from '../utils/ramadan-utils.js';
-
-type BackfillOptions = {
+import {
+  getAttendance,
+  getConfig,
+  PRAYERS,
+  setAttendance,
+  type PrayerName,
+} from '../lib/store.js';
+import {
+  AttendanceFlagError,
+  formatAttendanceSummary,
+  hasAttendanceFlags,
+  isFutureDate,
+  parseStrictDateKey,
+  reportAttendanceError,
+  requireInteractive,
+  resolveFlagDate,
+  saveAttendanceFlags,
+  type AttendanceFlags,
+} from '../utils/attendance-utils.js';
+import { isRamadanDate, toHijriSettings } from '../utils/ramadan-utils.js';
+
+type BackfillOptions = AttendanceFlags & {
   date?: string;
 };
 
-const parseDateKey = (value: string): string => {
-  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
-    throw new Error('Date must be in YYYY-MM-DD format');
-  }
-  const [year, month, day] = value.split('-').map((part) => Number(part));
-  if (month < 1 || month > 12) {
-    throw new Error('Month must be between 01 and 12');
-  }
-  const date = new Date(Date.UTC(year, month - 1, day));
-  if (
-    date.getUTCFullYear() !== year ||
-    date.getUTCMonth() !== month - 1 ||
-    date.getUTCDate() !== day
-  ) {
-    throw new Error('Invalid day for the given month');
-  }
-  return value;
-};
-
-const isFutureDate = (dateKey: string): boolean => {
-  const today = new Date();
-  const todayKey = [
-    today.getFullYear(),
-    String(today.getMonth() + 1).padStart(2, '0'),
-    String(today.getDate()).padStart(2, '0'),
-  ].join('-');
-  return dateKey > todayKey;
-};
-
-
 export const registerBackfillCommand = (program: Command): void => {
   program
     .command('backfill')
     .description('Fill in missed prayer attendance for a past date')
     .option('-d, --date <date>', 'Date in YYYY-MM-DD format')
+    .option('-p, --prayers <list>', 'Prayers to mark as done, e.g. fajr,dhuhr')
+    .option('-a, --all', 'Mark all five prayers as done')
+    .option('-u, --unset <list>', 'Prayers to mark as not done, e.g. asr')
+    .option('--fasted', 'Record the fast as completed')
+    .option('--not-fasted', 'Record the fast as not completed')
+    .option('-y, --yes', 'Skip confirmations, e.g. logging a fast on Eid')
     .action(async (options: BackfillOptions) => {
+      if (hasAttendanceFlags(options)) {
+        try {
+          if (!options.date) {
+            throw new AttendanceFlagError('--date is required when backfilling with flags.');
+          }
+          const config = getConfig();
+          const dateKey = resolveFlagDate(options.date, config.timezone);
+          const record = saveAttendanceFlags(dateKey, options, toHijriSettings(config));
+          console.log(formatAttendanceSummary(record));
+        } catch (error) {
+          reportAttendanceError(error);
+        }
+        return;
+      }
+
+      if (!requireInteractive('Pass --date with --prayers, --all, --unset or --fasted instead.')) {
+        return;
+      }
+
       intro('📅 Backfill log - Log prayers and fasting for a past date.');
 
       let dateKey: string;
@@ -55,7 +68,7 @@ export const registerBackfillCommand = (program: Command): void => {
             validate: (value) => {
               if (!value) return 'Date is required';
               try {
-                parseDateKey(value);
+                parseStrictDateKey(value);
                 return undefined;
               } catch (error) {
                 return error instanceof Error ? error.message : 'Invalid date';
@@ -67,7 +80,7 @@ export const registerBackfillCommand = (program: Command): void => {
             return null;
           }
 
-          const parsed = parseDateKey(String(dateInput));
+          const parsed = parseStrictDateKey(String(dateInput));
           if (isFutureDate(parsed)) {
             console.log('');
             console.log(pc.yellow('Reminder:'));
@@ -82,7 +95,7 @@ export const registerBackfillCommand = (program: Command): void => {
       };
 
       if (options.date) {
-        dateKey = parseDateKey(options.date);
+        dateKey = parseStrictDateKey(options.date);
         if (isFutureDate(dateKey)) {
           console.log('');
           console.log(pc.yellow('Reminder:'));
@@ -126,7 +139,7 @@ export const registerBackfillCommand = (program: Command): void => {
       ) as Record<PrayerName, boolean>;
 
       let fasted: boolean | undefined = existing?.fasted;
-      if (await isRamadanDate(dateKey)) {
+      if (isRamadanDate(dateKey, toHijriSettings(getConfig()))) {
         const fastingAnswer = await confirm({
           message: `Did you complete your fast on ${dateKey}?`,
           initialValue: existing?.fasted ?? false,
@@ -0,0 +1,178 @@
+import { cancel, confirm, intro, isCancel, note, outro } from '@clack/prompts';
+import type { Command } from 'commander';
+import pc from 'picocolors';
+
+import {
+  DEFAULT_BACKUP_KEEP,
+  findBackup,
+  listBackups,
+  pruneBackups,
+  readBackup,
+  type BackupInfo,
+} from '../lib/backup.js';
+import { getBackupDir, parseImportData, restoreBackup } from '../lib/store.js';
+import { formatDateKey } from '../utils/date-utils.js';
+import { printJson, printPlain, resolveOutputFormat } from '../utils/output-format.js';
+
+type ListOptions = {
+  json?: boolean;
+  format?: string;
+};
+
+type RestoreOptions = {
+  yes?: boolean;
+};
+
+type PruneOptions = {
+  keep?: string;
+};
+
+const parseKeep = (value: string): number => {
+  const keep = Number(value);
+  if (!Number.isInteger(keep) || keep < 0) {
+    throw new Error('Keep must be a non-negative integer');
+  }
+  return keep;
+};
+
+const formatCreatedAt = (date: Date): string =>
+  `${formatDateKey(date)} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+const formatSize = (bytes: number): string =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const countDays = (backup: BackupInfo): number => {
+  try {
+    return Object.keys(parseImportData(readBackup(backup)).attendance ?? {}).length;
+  } catch {
+    return 0;
+  }
+};
+
+const printError = (error: unknown): void => {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  console.error(pc.red(message));
+  process.exitCode = 1;
+};
+
+export const registerBackupCommand = (program: Command): void => {
+  const backup = program
+    .command('backup')
+    .description('List, restore and prune automatic backups of your data');
+
+  backup
+    .command('list')
+    .description('List backups, newest first')
+    .option('--json', 'Print machine-readable JSON (same as --format json)')
+    .option('--format <format>', 'Output format: table, plain or json')
+    .action((options: ListOptions) => {
+      try {
+        const format = resolveOutputFormat(options);
+        const backups = listBackups(getBackupDir());
+
+        if (format === 'json') {
+          printJson({
+            kind: 'backups',
+            dir: getBackupDir(),
+            backups: backups.map((item) => ({
+              id: item.id,
+              reason: item.reason,
+              createdAt: item.createdAt.toISOString(),
+              days: countDays(item),
+              size: item.size,
+            })),
+          });
+          return;
+        }
+        if (format === 'plain') {
+          printPlain(
+            backups.map((item) => [
+              item.id,
+              item.reason,
+              item.createdAt.toISOString(),
+              countDays(item),
+              item.size,
+            ]),
+          );
+          return;
+        }
+
+        if (backups.length === 0) {
+          console.log(pc.dim('No backups yet. One is taken daily and before reset or import.'));
+          return;
+        }
+        const idWidth = Math.max(...backups.map((item) => item.id.length));
+        console.log(
+          pc.dim(`${'ID'.padEnd(idWidth)}  ${'Reason'.padEnd(9)}  ${'Created'.padEnd(16)}  Days`),
+        );
+        backups.forEach((item) => {
+          console.log(
+            `${item.id.padEnd(idWidth)}  ${item.reason.padEnd(9)}  ${formatCreatedAt(item.createdAt)}  ${String(countDays(item)).padStart(4)}  ${pc.dim(formatSize(item.size))}`,
+          );
+        });
+        console.log(pc.dim(`\nRestore with roza backup restore <id>. Folder: ${getBackupDir()}`));
+      } catch (error) {
+        printError(error);
+      }
+    });
+
+  backup
+    .command('restore <id>')
+    .description('Replace your data with a backup (the current data is backed up first)')
+    .option('-y, --yes', 'Skip the confirmation')
+    .action(async (id: string, options: RestoreOptions) => {
+      try {
+        const target = findBackup(getBackupDir(), id);
+        intro('Restore backup');
+        note(
+          [
+            `Taken: ${formatCreatedAt(target.createdAt)} (${target.reason})`,
+            `Days: ${countDays(target)}`,
+          ].join('\n'),
+          target.id,
+        );
+
+        if (!options.yes) {
+          const answer = await confirm({
+            message: 'Replace your current data with this backup?',
+            initialValue: false,
+          });
+          if (isCancel(answer)) {
+            cancel('Restore cancelled.');
+            return;
+          }
+          if (!answer) {
+            outro(pc.dim('No changes made.'));
+            return;
+          }
+        }
+
+        const { state } = restoreBackup(target.id);
+        outro(
+          `Restored ${Object.keys(state.attendance ?? {}).length} days from ${target.id}. Your previous data was backed up first.`,
+        );
+      } catch (error) {
+        printError(error);
+      }
+    });
+
+  backup
+    .command('prune')
+    .description(
+      `Delete old backups (keeps the newest ${DEFAULT_BACKUP_KEEP} of each kind by default)`,
+    )
+    .option('-k, --keep <count>', 'Number of backups of each kind to keep')
+    .action((options: PruneOptions) => {
+      try {
+        const keep = options.keep ? parseKeep(options.keep) : DEFAULT_BACKUP_KEEP;
+        const removed = pruneBackups(getBackupDir(), keep);
+        if (removed.length === 0) {
+          console.log(pc.dim('Nothing to prune.'));
+          return;
+        }
+        console.log(`Removed ${removed.length} ${removed.length === 1 ? 'backup' : 'backups'}.`);
+      } catch (error) {
+        printError(error);
+      }
+    });
+};
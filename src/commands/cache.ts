@@ -0,0 +1,93 @@
+import type { Command } from 'commander';
+import ora from 'ora';
+import pc from 'picocolors';
+
+import { fetchMethods } from '../lib/api.js';
+import { clearCache, getCachePath } from '../lib/cache.js';
+import { getConfig, setConfig } from '../lib/store.js';
+import {
+  createTimingsContext,
+  fetchLocationCalendar,
+  fetchLocationHijriCalendar,
+  fetchLocationTimings,
+} from '../lib/timings.js';
+import { formatDateKey } from '../utils/date-utils.js';
+import {
+  getHijriYear,
+  parseHijriYear,
+  toDateKeyFromGregorian,
+  toHijriSettings,
+} from '../utils/ramadan-utils.js';
+
+type PrefetchOptions = {
+  year?: string;
+};
+
+export const registerCacheCommand = (program: Command): void => {
+  const cache = program.command('cache').description('Manage cached prayer time data');
+
+  cache
+    .command('prefetch')
+    .description('Download a whole Ramadan for offline use')
+    .option('-y, --year <year>', 'Hijri year for Ramadan (e.g. 1447)')
+    .action(async (options: PrefetchOptions) => {
+      const config = getConfig();
+      if (!config.location) {
+        console.error(pc.red('Location is required to prefetch. Run schedule first.'));
+        process.exitCode = 1;
+        return;
+      }
+
+      const spinner = ora('Resolving Ramadan dates...').start();
+      try {
+        const hijriYear = options.year
+          ? parseHijriYear(options.year)
+          : getHijriYear(formatDateKey(new Date(), config.timezone), toHijriSettings(config));
+        const context = createTimingsContext(config.location, config);
+
+        spinner.text = `Downloading Ramadan ${hijriYear} calendar...`;
+        const calendar = await fetchLocationHijriCalendar(context, hijriYear, 9);
+        const dateKeys = calendar.map((item) => toDateKeyFromGregorian(item.date.gregorian.date));
+
+        const months = new Set(dateKeys.map((dateKey) => dateKey.slice(0, 7)));
+        for (const monthKey of months) {
+          const [year, month] = monthKey.split('-').map((part) => Number(part));
+          await fetchLocationCalendar(context, year, month);
+        }
+
+        for (const [idx, dateKey] of dateKeys.entries()) {
+          spinner.text = `Caching day ${idx + 1}/${dateKeys.length}...`;
+          const [year, month, day] = dateKey.split('-').map((part) => Number(part));
+          await fetchLocationTimings(context, new Date(year, month - 1, day));
+        }
+
+        await fetchMethods();
+
+        const meta = calendar[0]?.meta;
+        if (meta) {
+          setConfig({
+            coordinates: {
+              latitude: meta.latitude,
+              longitude: meta.longitude,
+              timezone: meta.timezone,
+            },
+          });
+        }
+
+        spinner.succeed(`Cached ${dateKeys.length} days of Ramadan ${hijriYear}.`);
+        console.log(pc.dim(getCachePath()));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Prefetch failed.';
+        spinner.fail(message);
+        process.exitCode = 1;
+      }
+    });
+
+  cache
+    .command('clear')
+    .description('Remove all cached API responses')
+    .action(() => {
+      const count = clearCache();
+      console.log(`Cleared ${count} cached responses.`);
+    });
+};
@@ -4,12 +4,24 @@ import { access, writeFile } from 'node:fs/promises';
 import path from 'node:path';
 import pc from 'picocolors';
 
-import { exportStore } from '../lib/store.js';
-import { DEFAULT_EXPORT_FILE } from '../utils/export-utils.js';
+import { exportStore, type StoreState } from '../lib/store.js';
+import {
+  filterStoreByRange,
+  getDefaultExportFile,
+  parseDateRange,
+  parseExportFormat,
+  toAttendanceCsv,
+  toAttendanceMarkdown,
+  type ExportFormat,
+} from '../utils/export-utils.js';
 
 type ExportOptions = {
   file?: string;
   force?: boolean;
+  format?: string;
+  from?: string;
+  to?: string;
+  stdout?: boolean;
 };
 
 const fileExists = async (filePath: string): Promise<boolean> => {
@@ -21,20 +33,51 @@ const fileExists = async (filePath: string): Promise<boolean> => {
   }
 };
 
+const renderExport = (data: StoreState, format: ExportFormat): string => {
+  if (format === 'json') {
+    return JSON.stringify(data, null, 2);
+  }
+  const rows = Object.values(data.attendance ?? {}).sort((a, b) => a.date.localeCompare(b.date));
+  return format === 'csv' ? toAttendanceCsv(rows) : toAttendanceMarkdown(rows);
+};
+
 export const registerExportCommand = (program: Command): void => {
   program
     .command('export')
-    .description('Export all saved data to a JSON file')
+    .description('Export saved data to a JSON, CSV or Markdown file')
     .option('-f, --file <path>', 'Output file path')
     .option('--force', 'Overwrite file if it exists')
+    .option('--format <format>', 'Export format: json (full backup), csv or md')
+    .option('--from <date>', 'Only include days from this date (YYYY-MM-DD)')
+    .option('--to <date>', 'Only include days up to this date (YYYY-MM-DD)')
+    .option('--stdout', 'Write to standard output instead of a file')
     .action(async (options: ExportOptions) => {
+      let format: ExportFormat;
+      let data: StoreState;
+      try {
+        format = parseExportFormat(options.format);
+        data = filterStoreByRange(exportStore(), parseDateRange(options.from, options.to));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Invalid export options.';
+        console.error(pc.red(message));
+        process.exitCode = 1;
+        return;
+      }
+
+      if (options.stdout) {
+        const payload = renderExport(data, format);
+        process.stdout.write(payload.endsWith('\n') ? payload : `${payload}\n`);
+        return;
+      }
+
       intro('Export data');
 
+      const defaultFile = getDefaultExportFile(format);
       const fileInput =
         options.file ??
         (await text({
-          message: 'Export file path (e.g. /path/to/roza-export.json)',
-          initialValue: DEFAULT_EXPORT_FILE,
+          message: `Export file path (e.g. /path/to/${defaultFile})`,
+          initialValue: defaultFile,
           validate: (value) => (value ? undefined : 'Path is required'),
         }));
 
@@ -63,9 +106,7 @@ export const registerExportCommand = (program: Command): void => {
         }
       }
 
-      const data = exportStore();
-      const payload = JSON.stringify(data, null, 2);
-      await writeFile(resolvedPath, payload, 'utf8');
+      await writeFile(resolvedPath, renderExport(data, format), 'utf8');
 
       const attendanceCount = Object.keys(data.attendance ?? {}).length;
       outro(`Exported ${attendanceCount} days to ${resolvedPath}.`);
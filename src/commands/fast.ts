@@ -2,31 +2,183 @@ import { cancel, confirm, intro, isCancel, outro } from '@clack/prompts';
 import type { Command } from 'commander';
 import pc from 'picocolors';
 
-import { getAttendance, setAttendance } from '../lib/store.js';
+import { resolveHijriParts, HIJRI_MONTHS, type HijriSettings } from '../lib/hijri.js';
+import { getAttendance, getFastLedger, listAttendance, setAttendance } from '../lib/store.js';
 import { getConfig } from '../lib/store.js';
+import {
+  calcShawwalProgress,
+  describeSunnahKinds,
+  findSunnahFastDays,
+  getForbiddenFastDay,
+  getSunnahFastKinds,
+  type ShawwalProgress,
+} from '../lib/sunnah.js';
+import {
+  formatAttendanceSummary,
+  reportAttendanceError,
+  requireInteractive,
+  resolveFlagDate,
+  saveAttendanceFlags,
+  type AttendanceFlags,
+} from '../utils/attendance-utils.js';
 import { formatDateKey } from '../utils/date-utils.js';
-import { isRamadanDate } from '../utils/ramadan-utils.js';
+import { printJson, printPlain, resolveOutputFormat } from '../utils/output-format.js';
+import { formatDateLabel, isRamadanDate, toHijriSettings } from '../utils/ramadan-utils.js';
 
-const toTodayKey = (timezone?: string): string => formatDateKey(new Date(), timezone);
+type FastOptions = Pick<AttendanceFlags, 'fasted' | 'notFasted' | 'yes'> & {
+  date?: string;
+  sunnah?: boolean;
+  days?: string;
+  json?: boolean;
+  format?: string;
+};
+
+const DEFAULT_SUNNAH_DAYS = 30;
+
+const parseSunnahDays = (value: string): number => {
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1 || days > 366) {
+    throw new Error('Days must be between 1 and 366');
+  }
+  return days;
+};
+
+const describeShawwalProgress = ({ hijriYear, done, target, until }: ShawwalProgress): string =>
+  done >= target
+    ? `Six of Shawwal ${hijriYear}: all ${target} done`
+    : `Six of Shawwal ${hijriYear}: ${done} of ${target} done, any day until ${formatDateLabel(until)}`;
+
+/**
+ * Lists the recommended fasting days ahead, marking the ones already fasted.
+ * Shawwal is summarised as progress towards the six instead of listing each day.
+ */
+const outputSunnahDays = (
+  options: FastOptions,
+  settings: HijriSettings,
+  todayKey: string,
+): void => {
+  const format = resolveOutputFormat(options);
+  const days = options.days ? parseSunnahDays(options.days) : DEFAULT_SUNNAH_DAYS;
+  const found = findSunnahFastDays(todayKey, days, settings);
+  const rows = listAttendance();
+  const ledger = getFastLedger();
+  const shawwal = [
+    ...new Set(found.filter((day) => day.kinds.includes('shawwal')).map((day) => day.hijri.year)),
+  ].map((hijriYear) => calcShawwalProgress(rows, ledger, hijriYear, settings));
+  const upcoming = found
+    .map((day) => ({
+      ...day,
+      kinds: day.kinds.filter((kind) => kind !== 'shawwal'),
+      fasted: getAttendance(day.date)?.fasted ?? null,
+    }))
+    .filter((day) => day.kinds.length > 0);
+
+  if (format === 'json') {
+    printJson({ kind: 'sunnah-fasts', from: todayKey, days, upcoming, shawwal });
+    return;
+  }
+  if (format === 'plain') {
+    printPlain(
+      upcoming.map((day) => [
+        day.date,
+        day.kinds.join(','),
+        day.fasted === null ? '' : day.fasted ? 1 : 0,
+      ]),
+    );
+    return;
+  }
+
+  console.log(`Recommended fasts in the next ${days} days`);
+  console.log('');
+  shawwal.forEach((progress) => {
+    const done = progress.done >= progress.target ? pc.green(' ✓') : '';
+    console.log(`${describeShawwalProgress(progress)}${done}`);
+  });
+  if (upcoming.length === 0 && shawwal.length === 0) {
+    console.log(pc.dim('None in this period.'));
+    return;
+  }
+  upcoming.forEach((day) => {
+    const hijri = `${day.hijri.day} ${HIJRI_MONTHS[day.hijri.month - 1].en}`;
+    const done = day.fasted ? pc.green(' ✓') : '';
+    console.log(
+      `${formatDateLabel(day.date).padEnd(12)} ${pc.dim(hijri.padEnd(20))} ${describeSunnahKinds(day.kinds)}${done}`,
+    );
+  });
+  console.log(pc.dim('\nLog one with roza fast --fasted (add --date for another day).'));
+};
 
 export const registerFastCommand = (program: Command): void => {
   program
     .command('fast')
-    .description('Log fasting for today')
-    .action(async () => {
-      intro('Fasting check-in');
-
+    .description('Log fasting for today, in Ramadan or voluntary')
+    .option('--fasted', 'Record the fast as completed')
+    .option('--not-fasted', 'Record the fast as not completed')
+    .option('-d, --date <date>', 'Date in YYYY-MM-DD format (default: today)')
+    .option('-y, --yes', 'Log the fast even on Eid or the days of Tashreeq')
+    .option('--sunnah', 'Show upcoming recommended (sunnah) fasting days')
+    .option('--days <days>', `With --sunnah, how many days ahead (default ${DEFAULT_SUNNAH_DAYS})`)
+    .option('--json', 'With --sunnah, print machine-readable JSON')
+    .option('--format <format>', 'With --sunnah, output format: table, plain or json')
+    .action(async (options: FastOptions) => {
       const config = getConfig();
-      const dateKey = toTodayKey(config.timezone);
+      const settings = toHijriSettings(config);
+
+      if (options.sunnah) {
+        try {
+          outputSunnahDays(options, settings, formatDateKey(new Date(), config.timezone));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.error(pc.red(message));
+          process.exitCode = 1;
+        }
+        return;
+      }
 
-      if (!(await isRamadanDate(dateKey))) {
-        outro(pc.dim('Today is not a Ramadan day.'));
+      let dateKey: string;
+      try {
+        dateKey = resolveFlagDate(options.date, config.timezone);
+      } catch (error) {
+        reportAttendanceError(error);
         return;
       }
+      const isRamadan = isRamadanDate(dateKey, settings);
+
+      if (options.fasted || options.notFasted) {
+        try {
+          const record = saveAttendanceFlags(dateKey, options, settings);
+          console.log(formatAttendanceSummary(record));
+        } catch (error) {
+          reportAttendanceError(error);
+        }
+        return;
+      }
+
+      if (!requireInteractive('Pass --fasted or --not-fasted instead.')) {
+        return;
+      }
+
+      const dayLabel = options.date ? dateKey : 'Today';
+      const forbidden = getForbiddenFastDay(resolveHijriParts(dateKey, settings));
+      intro(isRamadan ? 'Fasting check-in' : 'Voluntary fast');
+
+      if (forbidden) {
+        outro(pc.dim(`${dayLabel} is ${forbidden}, when fasting is not allowed.`));
+        return;
+      }
+      const kinds = isRamadan ? [] : getSunnahFastKinds(dateKey, settings);
+      if (kinds.length > 0) {
+        console.log(pc.dim(`${dayLabel} is a recommended fast: ${describeSunnahKinds(kinds)}`));
+      }
+      if (kinds.includes('shawwal')) {
+        const { year } = resolveHijriParts(dateKey, settings);
+        const progress = calcShawwalProgress(listAttendance(), getFastLedger(), year, settings);
+        console.log(pc.dim(describeShawwalProgress(progress)));
+      }
 
       const existing = getAttendance(dateKey);
       const fastingAnswer = await confirm({
-        message: 'Did you complete your fast today?',
+        message: isRamadan ? 'Did you complete your fast today?' : 'Did you keep a voluntary fast?',
         initialValue: existing?.fasted ?? false,
       });
 
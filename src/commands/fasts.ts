@@ -0,0 +1,278 @@
+import type { Command } from 'commander';
+import pc from 'picocolors';
+
+import { calcOwedFasts, type MissedFast, type OwedFastsSummary } from '../lib/fasts.js';
+import { resolveHijriParts } from '../lib/hijri.js';
+import {
+  addFastMakeup,
+  FAST_EXEMPTION_REASONS,
+  getConfig,
+  getFastLedger,
+  listAttendance,
+  removeFastMakeup,
+  setFastExemptions,
+  setFidyahSettings,
+} from '../lib/store.js';
+import { getForbiddenFastDay } from '../lib/sunnah.js';
+import { resolveFlagDate, reportAttendanceError } from '../utils/attendance-utils.js';
+import { formatDateKey } from '../utils/date-utils.js';
+import {
+  formatDays,
+  formatMoney,
+  parseCurrency,
+  parseDateList,
+  parseExemptionReason,
+  parseFidyahRate,
+} from '../utils/fasts-utils.js';
+import { printJson, printPlain, resolveOutputFormat } from '../utils/output-format.js';
+import {
+  formatDateLabel,
+  isRamadanDate,
+  parseHijriYear,
+  toHijriSettings,
+} from '../utils/ramadan-utils.js';
+
+type OwedOptions = {
+  year?: string;
+  json?: boolean;
+  format?: string;
+};
+
+type ExemptOptions = {
+  reason?: string;
+  clear?: boolean;
+};
+
+type MakeupOptions = {
+  date?: string;
+  remove?: boolean;
+};
+
+type FidyahOptions = {
+  rate?: string;
+  currency?: string;
+  late?: boolean;
+};
+
+const LEFT_PAD = '  ';
+const renderLine = (text = ''): void => {
+  console.log(text ? `${LEFT_PAD}${text}` : '');
+};
+
+const accent = (value: string): string => `\x1b[38;2;128;240;151m${value}\x1b[0m`;
+
+const printError = (error: unknown): void => {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  console.error(pc.red(message));
+  process.exitCode = 1;
+};
+
+const loadSummary = (hijriYear?: number): OwedFastsSummary => {
+  const config = getConfig();
+  return calcOwedFasts(
+    listAttendance(),
+    getFastLedger(),
+    toHijriSettings(config),
+    formatDateKey(new Date(), config.timezone),
+    hijriYear === undefined ? undefined : [hijriYear],
+  );
+};
+
+const describeMissed = (missed: MissedFast): string => {
+  const status =
+    missed.fasted === false ? 'not fasted' : missed.dayLogged ? 'fast not logged' : 'not logged';
+  return missed.reason ? `${status}, ${missed.reason}` : status;
+};
+
+const renderOwedSummary = (summary: OwedFastsSummary): void => {
+  renderLine();
+  renderLine(accent('Ramadan fasts owed'));
+
+  for (const year of summary.years) {
+    renderLine();
+    renderLine(
+      `${accent(`Ramadan ${year.hijriYear}`)} ${pc.dim(`${formatDateLabel(year.start)} → ${formatDateLabel(year.end)}`)}`,
+    );
+    const missed = [...year.owed, ...year.fidyahDays].sort((a, b) => a.date.localeCompare(b.date));
+    if (missed.length === 0) {
+      renderLine(pc.dim('All fasts kept.'));
+      continue;
+    }
+    missed.forEach((item) => {
+      renderLine(
+        `${pc.dim(`Day ${String(item.ramadanDay).padStart(2)}`)}  ${item.date}  ${describeMissed(item)}`,
+      );
+    });
+    const status =
+      year.remaining === 0
+        ? pc.green('all made up')
+        : year.lateDays > 0
+          ? pc.red(`${year.remaining} still owed, past the deadline`)
+          : `${year.remaining} still owed, make up before ${formatDateLabel(year.deadline)}`;
+    renderLine(
+      `${pc.dim('• Owed:')} ${year.owed.length}  ${pc.dim('• Made up:')} ${year.madeUp.length}  ${pc.dim('•')} ${status}`,
+    );
+    if (year.fidyahDays.length > 0) {
+      renderLine(`${pc.dim('• Fidyah instead of make-up:')} ${formatDays(year.fidyahDays.length)}`);
+    }
+  }
+
+  renderLine();
+  renderLine(`${pc.dim('• Total still owed:')} ${accent(String(summary.totalRemaining))} fasts`);
+  if (summary.unallocatedMakeups.length > 0) {
+    renderLine(
+      `${pc.dim('• Extra make-ups:')} ${summary.unallocatedMakeups.length} ${pc.dim('(no owed fast left for them)')}`,
+    );
+  }
+  if (summary.fidyah) {
+    const { days, rate, currency, amount } = summary.fidyah;
+    renderLine(
+      `${pc.dim('• Fidyah:')} ${formatDays(days)} × ${formatMoney(rate, currency)} = ${accent(formatMoney(amount, currency))}`,
+    );
+  } else {
+    renderLine(pc.dim('Set a fidyah rate with roza fasts fidyah --rate 5 --currency GBP.'));
+  }
+};
+
+export const registerFastsCommand = (program: Command): void => {
+  const fasts = program
+    .command('fasts')
+    .description('Track missed Ramadan fasts, make-ups and fidyah');
+
+  fasts
+    .command('owed')
+    .description('List missed Ramadan fasts per Hijri year and what is still owed')
+    .option('-y, --year <year>', 'Only this Hijri year (e.g. 1447)')
+    .option('--json', 'Print machine-readable JSON (same as --format json)')
+    .option('--format <format>', 'Output format: table, plain or json')
+    .action((options: OwedOptions) => {
+      try {
+        const format = resolveOutputFormat(options);
+        const summary = loadSummary(options.year ? parseHijriYear(options.year) : undefined);
+
+        if (format === 'json') {
+          printJson({ kind: 'fasts-owed', ...summary });
+          return;
+        }
+        if (format === 'plain') {
+          printPlain(
+            summary.years.map((year) => [
+              year.hijriYear,
+              year.owed.length,
+              year.madeUp.length,
+              year.remaining,
+              year.fidyahDays.length,
+              year.deadline,
+            ]),
+          );
+          return;
+        }
+        if (summary.years.length === 0) {
+          console.log(pc.dim('No Ramadan days logged yet.'));
+          return;
+        }
+        renderOwedSummary(summary);
+      } catch (error) {
+        printError(error);
+      }
+    });
+
+  fasts
+    .command('exempt <dates>')
+    .description('Record why Ramadan fasts were missed, e.g. 2026-02-20..2026-02-22')
+    .option('-r, --reason <reason>', `One of: ${FAST_EXEMPTION_REASONS.join(', ')}`)
+    .option('--clear', 'Remove the recorded reason')
+    .action((input: string, options: ExemptOptions) => {
+      try {
+        if (options.clear === Boolean(options.reason)) {
+          throw new Error('Pass either --reason <reason> or --clear.');
+        }
+        const reason = options.reason ? parseExemptionReason(options.reason) : undefined;
+        const config = getConfig();
+        const dateKeys = parseDateList(input);
+        const outside = dateKeys.filter(
+          (dateKey) => !isRamadanDate(dateKey, toHijriSettings(config)),
+        );
+        if (outside.length > 0) {
+          throw new Error(`Not Ramadan days: ${outside.join(', ')}`);
+        }
+        setFastExemptions(dateKeys, reason);
+        const days = formatDays(dateKeys.length);
+        console.log(reason ? `${days} marked as ${reason}.` : `Cleared the reason for ${days}.`);
+        if (reason === 'chronic') {
+          console.log(pc.dim('These days count towards fidyah instead of make-up fasts.'));
+        }
+      } catch (error) {
+        printError(error);
+      }
+    });
+
+  fasts
+    .command('makeup')
+    .description('Log a make-up fast (pays off the oldest owed Ramadan first)')
+    .option('-d, --date <date>', 'Date in YYYY-MM-DD format (default: today)')
+    .option('--remove', 'Remove a make-up logged by mistake')
+    .action((options: MakeupOptions) => {
+      try {
+        const config = getConfig();
+        const dateKey = resolveFlagDate(options.date, config.timezone);
+        if (options.remove) {
+          removeFastMakeup(dateKey);
+          console.log(`Removed the make-up fast on ${dateKey}.`);
+        } else {
+          const settings = toHijriSettings(config);
+          if (isRamadanDate(dateKey, settings)) {
+            throw new Error(`${dateKey} is in Ramadan. Make-up fasts are kept outside Ramadan.`);
+          }
+          const forbidden = getForbiddenFastDay(resolveHijriParts(dateKey, settings));
+          if (forbidden) {
+            throw new Error(`${dateKey} is ${forbidden}, when fasting is not allowed.`);
+          }
+          addFastMakeup(dateKey);
+          console.log(`Make-up fast logged for ${dateKey}.`);
+        }
+        console.log(pc.dim(`Still owed: ${loadSummary().totalRemaining}`));
+      } catch (error) {
+        reportAttendanceError(error);
+      }
+    });
+
+  fasts
+    .command('fidyah')
+    .description('Set the fidyah rate per day, or show the amount due')
+    .option('--rate <amount>', 'Fidyah per missed day, e.g. 5')
+    .option('--currency <code>', 'Currency code or symbol, e.g. GBP')
+    .option('--late', 'Also charge for fasts not made up before the next Ramadan')
+    .option('--no-late', 'Only charge for days marked chronic')
+    .action((options: FidyahOptions) => {
+      try {
+        const current = getFastLedger().fidyah;
+        if (options.rate || options.currency || options.late !== undefined) {
+          const rate = options.rate ? parseFidyahRate(options.rate) : current?.rate;
+          const currency = options.currency ? parseCurrency(options.currency) : current?.currency;
+          if (rate === undefined || currency === undefined) {
+            throw new Error('Set both --rate and --currency the first time.');
+          }
+          setFidyahSettings({ rate, currency, late: options.late ?? current?.late });
+        }
+
+        const { fidyah } = loadSummary();
+        if (!fidyah) {
+          console.log(pc.dim('No fidyah rate set. Try roza fasts fidyah --rate 5 --currency GBP.'));
+          return;
+        }
+        console.log(
+          `Fidyah: ${formatDays(fidyah.days)} × ${formatMoney(fidyah.rate, fidyah.currency)} = ${formatMoney(fidyah.amount, fidyah.currency)}`,
+        );
+        console.log(
+          pc.dim(
+            getFastLedger().fidyah?.late
+              ? 'Counts chronic days and fasts not made up before the next Ramadan.'
+              : 'Counts days marked chronic. Add --late to include overdue make-ups.',
+          ),
+        );
+      } catch (error) {
+        printError(error);
+      }
+    });
+};
@@ -1,19 +1,20 @@
 import type { Command } from 'commander';
 import pc from 'picocolors';
 
-import {
-  fetchHijriByDate,
-  type HijriDate,
-  type PrayerData,
-} from '../lib/api.js';
+import type { HijriDate, PrayerData } from '../lib/api.js';
+import { readAuditLog } from '../lib/audit.js';
+import { convertToHijriDate, type HijriSettings } from '../lib/hijri.js';
+import { createTimingsContext } from '../lib/timings.js';
 import {
   addDays,
   formatDateLabel,
+  getHijriYear,
   parseDateKey,
   parseDays,
   parseHijriYear,
   resolveRamadanCalendar,
   toDateKeyFromGregorian,
+  toHijriSettings,
 } from '../utils/ramadan-utils.js';
 import {
   PRAYERS,
@@ -22,7 +23,17 @@ import {
   type DayAttendance,
   type PrayerRecord,
 } from '../lib/store.js';
+import { describeChange, formatAuditTime } from '../utils/audit-utils.js';
 import { padAnsi, stripAnsi } from '../utils/cli-format.js';
+import { formatDateKey } from '../utils/date-utils.js';
+import {
+  printJson,
+  printPlain,
+  resolveOutputFormat,
+  toAttendanceJson,
+  type AttendanceJson,
+  type OutputFormat,
+} from '../utils/output-format.js';
 
 type HistoryOptions = {
   from?: string;
@@ -32,6 +43,11 @@ type HistoryOptions = {
   ramadanStart?: string;
   ramadanDays?: string;
   ramadanYear?: string;
+  offline?: boolean;
+  day?: string;
+  changes?: boolean;
+  json?: boolean;
+  format?: string;
 };
 
 type RamadanDate = {
@@ -40,6 +56,14 @@ type RamadanDate = {
   hijriLabel: string;
 };
 
+type HistoryJson = {
+  kind: 'history';
+  range: { from: string | null; to: string | null; month: string | null } | null;
+  ramadan: { year: number; dates: string[] } | null;
+  summary: { totalDays: number; completed: number; total: number; percent: number };
+  days: Array<AttendanceJson & { hijri: string | null }>;
+};
+
 const LEFT_PAD = '  ';
 const renderLine = (text = ''): void => {
   if (!text) {
@@ -105,27 +129,19 @@ const buildRamadanDatesFromCalendar = (items: ReadonlyArray<PrayerData>): Readon
   });
 };
 
-const buildRamadanDatesFromStart = async (
+const buildRamadanDatesFromStart = (
   start: string,
   days: number,
-): Promise<ReadonlyArray<RamadanDate>> => {
-  const dates = Array.from({ length: days }, (_, idx) => addDays(start, idx));
-  const conversions = await Promise.all(
-    dates.map(async (dateKey) => {
-      const converted = await fetchHijriByDate(dateKey);
-      return {
-        dateKey,
-        hijri: converted.hijri,
-      };
-    }),
-  );
-
-  return conversions.map(({ dateKey, hijri }) => ({
-    dateKey,
-    gregorianLabel: formatDateLabel(dateKey),
-    hijriLabel: formatHijriLabel(hijri),
-  }));
-};
+  settings?: HijriSettings,
+): ReadonlyArray<RamadanDate> =>
+  Array.from({ length: days }, (_, idx) => {
+    const dateKey = addDays(start, idx);
+    return {
+      dateKey,
+      gregorianLabel: formatDateLabel(dateKey),
+      hijriLabel: formatHijriLabel(convertToHijriDate(dateKey, settings)),
+    };
+  });
 
 const getPrayerMap = (rows: ReadonlyArray<DayAttendance>): Map<string, PrayerRecord> => {
   const map = new Map<string, PrayerRecord>();
@@ -135,6 +151,59 @@ const getPrayerMap = (rows: ReadonlyArray<DayAttendance>): Map<string, PrayerRec
   return map;
 };
 
+const outputHistory = (format: Exclude<OutputFormat, 'table'>, json: HistoryJson): void => {
+  if (format === 'json') {
+    printJson(json);
+    return;
+  }
+
+  const flag = (value: boolean | null): string => (value === null ? '' : value ? '1' : '0');
+  printPlain([
+    ['date', 'hijri', ...PRAYERS, 'fasted'],
+    ...json.days.map((day) => [
+      day.date,
+      day.hijri ?? '',
+      ...PRAYERS.map((prayer) => flag(day.prayers[prayer])),
+      flag(day.fasted),
+    ]),
+  ]);
+};
+
+/**
+ * Shows how one day's record changed over time, oldest change first.
+ */
+const outputDayChanges = (format: OutputFormat, dateKey: string): void => {
+  const entries = readAuditLog().filter((entry) => entry.date === dateKey);
+  if (format === 'json') {
+    printJson({ kind: 'history-changes', date: dateKey, entries });
+    return;
+  }
+  if (format === 'plain') {
+    printPlain(
+      entries.map((entry) => [
+        entry.at,
+        entry.revertOf ? `undo#${entry.revertOf}` : entry.source,
+        ...PRAYERS.map((prayer) => (entry.after?.prayers[prayer] ? 1 : 0)),
+        entry.after?.fasted === undefined ? '' : entry.after.fasted ? 1 : 0,
+      ]),
+    );
+    return;
+  }
+
+  renderLine(`${accent('Changes')} ${pc.dim(formatDateLabel(dateKey))}`);
+  renderLine();
+  if (entries.length === 0) {
+    renderLine(pc.dim('No changes recorded for this day.'));
+    return;
+  }
+  entries.forEach((entry) => {
+    const source = entry.revertOf ? `undo #${entry.revertOf}` : entry.source;
+    renderLine(
+      `${pc.dim(formatAuditTime(entry.at))}  ${source.padEnd(14)}  ${describeChange(entry.before, entry.after)}`,
+    );
+  });
+};
+
 export const registerHistoryCommand = (program: Command): void => {
   program
     .command('history')
@@ -143,17 +212,33 @@ export const registerHistoryCommand = (program: Command): void => {
     .option('-t, --to <date>', 'To date YYYY-MM-DD')
     .option('-m, --month <month>', 'Month in YYYY-MM (e.g. Ramadan month)')
     .option('--ramadan', 'Show only Ramadan dates (Hijri month 9)')
-    .option('--ramadan-start <date>', 'Ramadan start date in YYYY-MM-DD (Indonesia: 2026-02-19)')
+    .option('--ramadan-start <date>', 'Ramadan start date in YYYY-MM-DD (overrides the saved start)')
     .option('--ramadan-days <days>', 'Ramadan length in days (29 or 30)')
     .option('--ramadan-year <year>', 'Hijri year for Ramadan (e.g. 1447)')
+    .option('--offline', 'Calculate the Ramadan calendar locally instead of calling the API')
+    .option('-d, --day <date>', 'Show a single day (YYYY-MM-DD)')
+    .option('--changes', 'With --day, show how that day was edited over time')
+    .option('--json', 'Print machine-readable JSON (same as --format json)')
+    .option('--format <format>', 'Output format: table, plain or json')
     .action(async (options: HistoryOptions) => {
       try {
-        const from = options.from ? parseDateKey(options.from) : undefined;
-        const to = options.to ? parseDateKey(options.to) : undefined;
+        const format = resolveOutputFormat(options);
+        const day = options.day ? parseDateKey(options.day) : undefined;
+        if (options.changes && !day) {
+          throw new Error('Use --changes with --day.');
+        }
+        if (day && (options.from || options.to || options.month)) {
+          throw new Error('Use either --day or --from/--to/--month, not both.');
+        }
+        if (day && options.changes) {
+          outputDayChanges(format, day);
+          return;
+        }
+        const from = day ?? (options.from ? parseDateKey(options.from) : undefined);
+        const to = day ?? (options.to ? parseDateKey(options.to) : undefined);
         const month = options.month ? parseMonthKey(options.month) : undefined;
         const ramadanStart = options.ramadanStart ? parseDateKey(options.ramadanStart) : undefined;
         const ramadanDays = options.ramadanDays ? parseDays(options.ramadanDays) : undefined;
-        const ramadanYear = options.ramadanYear ? parseHijriYear(options.ramadanYear) : 1447;
         const useRamadan = Boolean(options.ramadan || ramadanStart || ramadanDays);
 
         const attendance = listAttendance();
@@ -164,29 +249,35 @@ export const registerHistoryCommand = (program: Command): void => {
 
         let ramadanDates: ReadonlyArray<RamadanDate> | undefined;
         let ramadanRangeLabel: string | undefined;
+        let ramadanYear: number | undefined;
         if (useRamadan) {
           const config = getConfig();
           if (!config.location) {
             throw new Error('Location is required to resolve Ramadan dates. Run schedule first.');
           }
+          ramadanYear = options.ramadanYear
+            ? parseHijriYear(options.ramadanYear)
+            : getHijriYear(formatDateKey(new Date(), config.timezone), toHijriSettings(config));
 
           if (ramadanStart) {
             const days = ramadanDays ?? 30;
-            ramadanDates = await buildRamadanDatesFromStart(ramadanStart, days);
+            const settings = toHijriSettings(config);
+            ramadanDates = buildRamadanDatesFromStart(ramadanStart, days, {
+              ...settings,
+              ramadanStarts: { ...settings.ramadanStarts, [ramadanYear]: ramadanStart },
+            });
             ramadanRangeLabel = `1 Ramadan ${ramadanYear} → ${days} Ramadan ${ramadanYear}`;
           } else {
             const calendar = await resolveRamadanCalendar(
-              config.location,
+              createTimingsContext(config.location, config, { offline: options.offline }),
               ramadanYear,
-              config.method,
-              config.school,
             );
             ramadanDates = buildRamadanDatesFromCalendar(calendar);
             ramadanRangeLabel = `1 Ramadan ${ramadanYear} → ${calendar.length} Ramadan ${ramadanYear}`;
           }
         }
 
-        if (useRamadan && ramadanDates) {
+        if (useRamadan && ramadanDates && ramadanYear !== undefined) {
           const prayerMap = getPrayerMap(attendance);
           const attendanceMap = new Map(attendance.map((row) => [row.date, row]));
           const rowsForTable = ramadanDates.map((date) => ({
@@ -205,6 +296,25 @@ export const registerHistoryCommand = (program: Command): void => {
           }, 0);
           const percent = totalPrayers > 0 ? Math.round((completed / totalPrayers) * 100) : 0;
 
+          if (format !== 'table') {
+            outputHistory(format, {
+              kind: 'history',
+              range: null,
+              ramadan: { year: ramadanYear, dates: ramadanDates.map((date) => date.dateKey) },
+              summary: { totalDays, completed, total: totalPrayers, percent },
+              days: rowsForTable.map((row) => ({
+                ...toAttendanceJson({
+                  date: row.date.dateKey,
+                  prayers: row.prayers,
+                  fasted: row.fasted,
+                  updatedAt: '',
+                }),
+                hijri: row.date.hijriLabel,
+              })),
+            });
+            return;
+          }
+
           renderHistoryHeader();
           renderLine(`${pc.dim('• Range:')} Ramadan`);
           if (ramadanRangeLabel) {
@@ -260,7 +370,7 @@ export const registerHistoryCommand = (program: Command): void => {
           return;
         }
 
-        if (rows.length === 0) {
+        if (rows.length === 0 && format === 'table') {
           renderLine(pc.dim(useRamadan ? 'No Ramadan records yet.' : 'No attendance records yet.'));
           return;
         }
@@ -272,6 +382,17 @@ export const registerHistoryCommand = (program: Command): void => {
         }, 0);
         const percent = totalPrayers > 0 ? Math.round((completed / totalPrayers) * 100) : 0;
 
+        if (format !== 'table') {
+          outputHistory(format, {
+            kind: 'history',
+            range: { from: from ?? null, to: to ?? null, month: month ?? null },
+            ramadan: null,
+            summary: { totalDays, completed, total: totalPrayers, percent },
+            days: rows.map((row) => ({ ...toAttendanceJson(row), hijri: null })),
+          });
+          return;
+        }
+
         renderHistoryHeader();
         renderLine(`${pc.dim('• Range:')} ${formatRangeLabel(from, to, month)}`);
         renderLine(`${pc.dim('• Total:')} ${totalDays} days • ${completed}/${totalPrayers} prayers (${percent}%)`);
@@ -1,23 +1,215 @@
-import { cancel, confirm, intro, isCancel, outro, text } from '@clack/prompts';
+import { cancel, confirm, intro, isCancel, note, outro, text } from '@clack/prompts';
 import type { Command } from 'commander';
 import { readFile } from 'node:fs/promises';
 import path from 'node:path';
 import pc from 'picocolors';
 
-import { exportStore, importStore } from '../lib/store.js';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion } from '../lib/migrations.js';
+import {
+  parseMergeStrategy,
+  planAttendanceMerge,
+  planLedgerMerge,
+  type LedgerMergePlan,
+  type MergePlan,
+  type MergeStrategy,
+} from '../lib/merge.js';
+import {
+  applyMergedImport,
+  exportStore,
+  ImportValidationError,
+  importStore,
+  parseImportData,
+  PRAYERS,
+  repairImportData,
+  type DayAttendance,
+  type StoreState,
+} from '../lib/store.js';
 import { DEFAULT_EXPORT_FILE } from '../utils/export-utils.js';
 
 type ImportOptions = {
   file?: string;
+  merge?: string | boolean;
+  withConfig?: boolean;
+  repair?: boolean;
+  dryRun?: boolean;
+};
+
+// Conflicts, issues and repairs listed before the output is truncated.
+const PREVIEW_LIMIT = 10;
+const ISSUE_LIMIT = 20;
+
+const formatList = (items: ReadonlyArray<string>, limit: number): string => {
+  const lines = items.slice(0, limit);
+  if (items.length > limit) {
+    lines.push(pc.dim(`...and ${items.length - limit} more`));
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Validates the parsed file, or repairs it with `--repair`. Returns undefined
+ * after reporting the problems when the data cannot be used.
+ */
+const loadImportData = (parsed: unknown, repair: boolean): StoreState | undefined => {
+  try {
+    if (!repair) {
+      return parseImportData(parsed);
+    }
+    const { data, fixes } = repairImportData(parsed);
+    if (fixes.length > 0) {
+      note(formatList(fixes, ISSUE_LIMIT), `Repaired ${fixes.length} entries`);
+    }
+    return data;
+  } catch (error) {
+    if (error instanceof ImportValidationError) {
+      console.error(pc.red(error.message));
+      console.error(formatList(error.issues, ISSUE_LIMIT));
+      if (!repair) {
+        console.error(pc.dim('Run again with --repair to drop or fix invalid entries.'));
+      }
+    } else {
+      const message = error instanceof Error ? error.message : 'Invalid import data.';
+      console.error(pc.red(message));
+    }
+    process.exitCode = 1;
+    return undefined;
+  }
+};
+
+const formatDayShort = (day: DayAttendance): string => {
+  const prayed = PRAYERS.filter((prayer) => day.prayers[prayer] === true).length;
+  const fasted = day.fasted === undefined ? '' : day.fasted ? ' fast ✓' : ' fast ✗';
+  return `${prayed}/${PRAYERS.length}${fasted}`;
+};
+
+const describeResult = (conflict: MergePlan['conflicts'][number]): string => {
+  if (conflict.result === conflict.ours) return 'keep ours';
+  if (conflict.result === conflict.theirs) return 'take theirs';
+  return `union ${formatDayShort(conflict.result)}`;
+};
+
+const describeConfig = (incoming: StoreState, withConfig: boolean): string => {
+  if (withConfig) {
+    return 'replaced from the import';
+  }
+  return incoming.customMethod ? 'kept (custom method not imported)' : 'kept';
+};
+
+const formatMergePreview = (
+  plan: MergePlan,
+  ledgers: LedgerMergePlan,
+  strategy: MergeStrategy,
+  incoming: StoreState,
+  withConfig: boolean,
+): string => {
+  const lines = [
+    `Added      ${plan.added.length} days`,
+    `Changed    ${plan.changed.length} days`,
+    `Conflicts  ${plan.conflicts.length} days (resolved with ${strategy})`,
+    `Unchanged  ${plan.unchanged} days`,
+    `Qada       ${ledgers.qadaDaysAdded} days of make-ups added`,
+    `Fasts      ${ledgers.makeupsAdded} make-ups, ${ledgers.exemptionsAdded} exemptions added`,
+    `Config     ${describeConfig(incoming, withConfig)}`,
+  ];
+  if (plan.conflicts.length > 0) {
+    lines.push('');
+    plan.conflicts.slice(0, PREVIEW_LIMIT).forEach((conflict) => {
+      lines.push(
+        `${conflict.date}  ours ${formatDayShort(conflict.ours)}  theirs ${formatDayShort(conflict.theirs)}  → ${describeResult(conflict)}`,
+      );
+    });
+    if (plan.conflicts.length > PREVIEW_LIMIT) {
+      lines.push(pc.dim(`...and ${plan.conflicts.length - PREVIEW_LIMIT} more`));
+    }
+  }
+  return lines.join('\n');
+};
+
+const runMergeImport = async (
+  incoming: StoreState,
+  strategy: MergeStrategy,
+  withConfig: boolean,
+  fileInput: string,
+  dryRun: boolean,
+): Promise<void> => {
+  let current: StoreState;
+  try {
+    current = exportStore();
+  } catch (error) {
+    // Merging needs the current data, so an invalid store stops here. A plain
+    // import can still replace it.
+    const message = error instanceof Error ? error.message : 'Could not read stored data.';
+    console.error(pc.red(message));
+    process.exitCode = 1;
+    return;
+  }
+  const plan = planAttendanceMerge(current.attendance ?? {}, incoming.attendance ?? {}, strategy);
+  const ledgers = planLedgerMerge(current, incoming, strategy);
+  note(formatMergePreview(plan, ledgers, strategy, incoming, withConfig), 'Merge preview');
+
+  if (dryRun) {
+    outro(pc.dim('Dry run. No changes made.'));
+    return;
+  }
+
+  const ledgerAdded = ledgers.qadaDaysAdded + ledgers.makeupsAdded + ledgers.exemptionsAdded;
+  if (plan.added.length === 0 && plan.changed.length === 0 && ledgerAdded === 0 && !withConfig) {
+    outro(pc.dim('Nothing to merge. No changes made.'));
+    return;
+  }
+
+  const shouldMerge = await confirm({
+    message: 'Apply this merge?',
+    initialValue: true,
+  });
+
+  if (isCancel(shouldMerge)) {
+    cancel('Import cancelled.');
+    return;
+  }
+
+  if (!shouldMerge) {
+    outro(pc.dim('No changes made.'));
+    return;
+  }
+
+  applyMergedImport(
+    plan.attendance,
+    { qada: ledgers.qada, fasts: ledgers.fasts },
+    withConfig ? incoming : undefined,
+  );
+  outro(
+    `Merged ${fileInput}: ${plan.added.length} days added, ${plan.changed.length} days changed.`,
+  );
 };
 
 export const registerImportCommand = (program: Command): void => {
   program
     .command('import')
-    .description('Import data from a JSON file (overwrites current data)')
+    .description('Import data from a JSON file (overwrites current data unless --merge)')
     .option('-f, --file <path>', 'Import file path')
+    .option(
+      '--merge [strategy]',
+      'Merge attendance instead of overwriting: newest (default), ours, theirs or union',
+    )
+    .option('--with-config', 'With --merge, also replace your config with the imported one')
+    .option('--repair', 'Drop or fix invalid entries and import the rest')
+    .option('--dry-run', 'Validate the file and show what would change without writing')
     .action(async (options: ImportOptions) => {
-      intro('Import data');
+      let strategy: MergeStrategy | undefined;
+      try {
+        if (options.withConfig && options.merge === undefined) {
+          throw new Error('Use --with-config only with --merge.');
+        }
+        strategy = options.merge !== undefined ? parseMergeStrategy(options.merge) : undefined;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Invalid import options.';
+        console.error(pc.red(message));
+        process.exitCode = 1;
+        return;
+      }
+
+      intro(strategy ? 'Merge data' : 'Import data');
 
       const fileInput =
         options.file ??
@@ -44,6 +236,35 @@ export const registerImportCommand = (program: Command): void => {
         return;
       }
 
+      const incoming = loadImportData(parsed, options.repair === true);
+      if (!incoming) {
+        return;
+      }
+      const fileVersion = getSchemaVersion(parsed);
+      if (fileVersion < CURRENT_SCHEMA_VERSION) {
+        note(
+          `Upgraded from schema version ${fileVersion} to ${CURRENT_SCHEMA_VERSION}.`,
+          'Older export',
+        );
+      }
+
+      if (strategy) {
+        await runMergeImport(
+          incoming,
+          strategy,
+          options.withConfig === true,
+          fileInput,
+          options.dryRun === true,
+        );
+        return;
+      }
+
+      const incomingCount = Object.keys(incoming.attendance ?? {}).length;
+      if (options.dryRun) {
+        outro(`Dry run: ${incomingCount} days would replace your current data. No changes made.`);
+        return;
+      }
+
       const shouldImport = await confirm({
         message: 'This will overwrite your current data. Continue?',
         initialValue: false,
@@ -59,16 +280,7 @@ export const registerImportCommand = (program: Command): void => {
         return;
       }
 
-      try {
-        importStore(parsed as Parameters<typeof importStore>[0]);
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Invalid import data.';
-        console.error(pc.red(message));
-        return;
-      }
-
-      const data = exportStore();
-      const attendanceCount = Object.keys(data.attendance ?? {}).length;
-      outro(`Imported ${attendanceCount} days from ${fileInput}.`);
+      importStore(incoming);
+      outro(`Imported ${incomingCount} days from ${fileInput}.`);
     });
 };
@@ -0,0 +1,60 @@
+import type { Command } from 'commander';
+import pc from 'picocolors';
+
+import { getAuditPath, readAuditLog } from '../lib/audit.js';
+import { formatAuditLine } from '../utils/audit-utils.js';
+import { printJson, resolveOutputFormat } from '../utils/output-format.js';
+
+type LogOptions = {
+  limit?: string;
+  day?: string;
+  json?: boolean;
+  format?: string;
+};
+
+const DEFAULT_LIMIT = 20;
+
+const parseLimit = (value: string): number => {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error('Limit must be a positive integer');
+  }
+  return limit;
+};
+
+export const registerLogCommand = (program: Command): void => {
+  program
+    .command('log')
+    .description('Show recent attendance changes (newest first)')
+    .option('-n, --limit <count>', `Number of changes to show (default ${DEFAULT_LIMIT})`)
+    .option('-d, --day <date>', 'Only show changes to this date (YYYY-MM-DD)')
+    .option('--json', 'Print machine-readable JSON (same as --format json)')
+    .option('--format <format>', 'Output format: table, plain or json')
+    .action((options: LogOptions) => {
+      try {
+        const format = resolveOutputFormat(options);
+        const limit = options.limit ? parseLimit(options.limit) : DEFAULT_LIMIT;
+        const entries = readAuditLog()
+          .filter((entry) => !options.day || entry.date === options.day)
+          .reverse()
+          .slice(0, limit);
+
+        if (format === 'json') {
+          printJson({ kind: 'log', entries });
+          return;
+        }
+        if (entries.length === 0) {
+          console.log(pc.dim('No changes recorded yet.'));
+          return;
+        }
+        entries.forEach((entry) => console.log(formatAuditLine(entry)));
+        if (format === 'table') {
+          console.log(pc.dim(`\nUndo the latest with roza undo [n]. Log: ${getAuditPath()}`));
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(pc.red(message));
+        process.exitCode = 1;
+      }
+    });
+};
@@ -3,20 +3,61 @@ import type { Command } from 'commander';
 import pc from 'picocolors';
 
 import { getConfig, getAttendance, PRAYERS, setAttendance, type PrayerName } from '../lib/store.js';
-import { formatDateKey } from '../utils/date-utils.js';
-import { isRamadanDate } from '../utils/ramadan-utils.js';
+import {
+  formatAttendanceSummary,
+  hasAttendanceFlags,
+  reportAttendanceError,
+  requireInteractive,
+  resolveFlagDate,
+  saveAttendanceFlags,
+  type AttendanceFlags,
+} from '../utils/attendance-utils.js';
+import { isRamadanDate, toHijriSettings } from '../utils/ramadan-utils.js';
 
-const toTodayKey = (timezone?: string): string => formatDateKey(new Date(), timezone);
+type MarkOptions = AttendanceFlags & {
+  date?: string;
+};
 
 export const registerMarkCommand = (program: Command): void => {
   program
     .command('mark')
     .description('Mark attendance for today\'s prayers')
-    .action(async () => {
+    .option('-p, --prayers <list>', 'Prayers to mark as done, e.g. fajr,dhuhr')
+    .option('-a, --all', 'Mark all five prayers as done')
+    .option('-u, --unset <list>', 'Prayers to mark as not done, e.g. asr')
+    .option('--fasted', 'Record the fast as completed')
+    .option('--not-fasted', 'Record the fast as not completed')
+    .option('-d, --date <date>', 'Date in YYYY-MM-DD format (default: today)')
+    .option('-y, --yes', 'Skip confirmations, e.g. logging a fast on Eid')
+    .action(async (options: MarkOptions) => {
+      const config = getConfig();
+      const settings = toHijriSettings(config);
+
+      if (hasAttendanceFlags(options)) {
+        try {
+          const dateKey = resolveFlagDate(options.date, config.timezone);
+          const record = saveAttendanceFlags(dateKey, options, settings);
+          console.log(formatAttendanceSummary(record));
+        } catch (error) {
+          reportAttendanceError(error);
+        }
+        return;
+      }
+
+      if (!requireInteractive('Pass --prayers, --all, --unset or --fasted instead.')) {
+        return;
+      }
+
+      let dateKey: string;
+      try {
+        dateKey = resolveFlagDate(options.date, config.timezone);
+      } catch (error) {
+        reportAttendanceError(error);
+        return;
+      }
+
       intro('Prayer check-in');
 
-      const config = getConfig();
-      const dateKey = toTodayKey(config.timezone);
       const existing = getAttendance(dateKey);
       const initialValues = PRAYERS.filter((prayer) => existing?.prayers[prayer] === true);
 
@@ -38,7 +79,7 @@ export const registerMarkCommand = (program: Command): void => {
       ) as Record<PrayerName, boolean>;
 
       let fasted: boolean | undefined = existing?.fasted;
-      if (await isRamadanDate(dateKey)) {
+      if (isRamadanDate(dateKey, settings)) {
         const fastingAnswer = await confirm({
           message: 'Did you complete your fast today?',
           initialValue: existing?.fasted ?? false,
@@ -0,0 +1,177 @@
+import type { Command } from 'commander';
+import pc from 'picocolors';
+import { cursor, erase } from 'sisteransi';
+
+import type { PrayerData } from '../lib/api.js';
+import { getConfig, type PrayerName } from '../lib/store.js';
+import {
+  createTimingsContext,
+  describeLocation,
+  resolveDailyTimings,
+  type TimingsContext,
+} from '../lib/timings.js';
+import { formatDateKey } from '../utils/date-utils.js';
+import { resolveOutputFormat, type OutputFormat } from '../utils/output-format.js';
+import {
+  computePrayerStatus,
+  formatCountdown,
+  formatDuration,
+  getNowInTimezone,
+} from '../utils/prayer-status.js';
+import { addDays } from '../utils/ramadan-utils.js';
+
+type NextOptions = {
+  watch?: boolean;
+  offline?: boolean;
+  json?: boolean;
+  format?: string;
+};
+
+type NextPrayerJson = {
+  kind: 'next';
+  prayer: PrayerName;
+  time: string;
+  date: string;
+  minutesAway: number;
+  secondsAway: number;
+  current: PrayerName | null;
+  location: string;
+  timezone: string;
+};
+
+const accent = (value: string): string => `\x1b[38;2;128;240;151m${value}\x1b[0m`;
+
+const toLocalDate = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map((part) => Number(part));
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Returns a function that resolves the upcoming prayer, loading each day's
+ * timings once. After Isha it counts down to tomorrow's Fajr.
+ */
+const createNextPrayerResolver = (context: TimingsContext, timezone?: string) => {
+  const days = new Map<string, Promise<PrayerData>>();
+  const loadDay = (dateKey: string): Promise<PrayerData> => {
+    let day = days.get(dateKey);
+    if (!day) {
+      day = resolveDailyTimings(context, toLocalDate(dateKey));
+      days.set(dateKey, day);
+      day.catch(() => days.delete(dateKey));
+    }
+    return day;
+  };
+
+  return async (): Promise<NextPrayerJson> => {
+    const todayKey = formatDateKey(new Date(), timezone);
+    for (const dateKey of days.keys()) {
+      if (dateKey < todayKey) {
+        days.delete(dateKey);
+      }
+    }
+
+    const today = await loadDay(todayKey);
+    const zone = timezone ?? today.meta.timezone;
+    const now = getNowInTimezone(zone);
+    let status = computePrayerStatus(today.timings, now.minutes);
+    let date = todayKey;
+    if (status.current === 'Isha') {
+      const tomorrowKey = addDays(todayKey, 1);
+      const tomorrow = await loadDay(tomorrowKey);
+      status = computePrayerStatus(today.timings, now.minutes, tomorrow.timings.Fajr);
+      date = tomorrowKey;
+    }
+
+    if (!status.next || !status.nextTime || status.minutesAway === undefined) {
+      throw new Error('No upcoming prayer time found for today.');
+    }
+
+    return {
+      kind: 'next',
+      prayer: status.next,
+      time: status.nextTime,
+      date,
+      minutesAway: Math.round(status.minutesAway),
+      secondsAway: Math.max(0, Math.round(status.minutesAway * 60)),
+      current: status.current ?? null,
+      location: describeLocation(context.location),
+      timezone: zone,
+    };
+  };
+};
+
+const formatNextLine = (next: NextPrayerJson, format: OutputFormat, watch?: boolean): string => {
+  if (format === 'json') {
+    return JSON.stringify(next);
+  }
+  const remaining = watch
+    ? formatCountdown(next.secondsAway / 60)
+    : formatDuration(next.minutesAway);
+  if (format === 'plain') {
+    return `${next.prayer} ${next.time} in ${remaining}`;
+  }
+  return `${accent(next.prayer)} at ${next.time} ${pc.dim('in')} ${accent(remaining)}`;
+};
+
+export const registerNextCommand = (program: Command): void => {
+  program
+    .command('next')
+    .description('Show the next prayer and the time remaining')
+    .option('-w, --watch', 'Keep a live countdown running')
+    .option('--offline', 'Calculate prayer times locally instead of calling the API')
+    .option('--json', 'Print machine-readable JSON (same as --format json)')
+    .option('--format <format>', 'Output format: table, plain or json')
+    .action(async (options: NextOptions) => {
+      try {
+        const format = resolveOutputFormat(options);
+        const config = getConfig();
+        if (!config.location) {
+          throw new Error('Location is required. Run schedule first.');
+        }
+
+        const context = createTimingsContext(config.location, config, {
+          offline: options.offline,
+        });
+        const resolveNext = createNextPrayerResolver(
+          context,
+          config.timezone ?? config.coordinates?.timezone,
+        );
+
+        if (!options.watch) {
+          console.log(formatNextLine(await resolveNext(), format));
+          return;
+        }
+
+        // JSON watch output is one document per line; the other formats redraw in place.
+        const redraw = format !== 'json' && process.stdout.isTTY;
+        const stop = (): void => {
+          if (redraw) {
+            process.stdout.write(`${cursor.show}\n`);
+          }
+          process.exit(0);
+        };
+        process.on('SIGINT', stop);
+        process.on('SIGTERM', stop);
+        if (redraw) {
+          process.stdout.write(cursor.hide);
+        }
+
+        while (true) {
+          const line = formatNextLine(await resolveNext(), format, true);
+          if (redraw) {
+            process.stdout.write(`${cursor.to(0)}${erase.line}${line}`);
+          } else {
+            console.log(line);
+          }
+          await new Promise((resolve) => setTimeout(resolve, 1000 - (Date.now() % 1000)));
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        if (options.watch && process.stdout.isTTY) {
+          process.stdout.write(`${cursor.show}\n`);
+        }
+        console.error(pc.red(message));
+        process.exitCode = 1;
+      }
+    });
+};
@@ -0,0 +1,215 @@
+import { spawn, spawnSync } from 'node:child_process';
+import { existsSync, openSync, readFileSync, renameSync, statSync } from 'node:fs';
+import type { Command } from 'commander';
+import pc from 'picocolors';
+
+import {
+  clearNotifierPid,
+  DEFAULT_NOTIFICATION_SETTINGS,
+  getNotifierPaths,
+  loadDailyAlerts,
+  readNotifierPid,
+  runNotifier,
+  sendNotification,
+  writeNotifierPid,
+} from '../lib/notifier.js';
+import { getConfig, setConfig, type NotificationSettings } from '../lib/store.js';
+import { parseStrictDateKey } from '../utils/attendance-utils.js';
+import { formatDateKey } from '../utils/date-utils.js';
+import {
+  describeNotifySettings,
+  parseNotifyEvents,
+  parseNotifyOffsets,
+} from '../utils/notify-utils.js';
+
+type StartOptions = {
+  events?: string;
+  before?: string;
+};
+
+type SendOptions = {
+  date?: string;
+};
+
+// Keep one previous log around once the current one passes this size.
+const MAX_LOG_BYTES = 512 * 1024;
+
+const rotateLog = (logFile: string): void => {
+  if (existsSync(logFile) && statSync(logFile).size > MAX_LOG_BYTES) {
+    renameSync(logFile, `${logFile}.1`);
+  }
+};
+
+const hasNotifySend = (): boolean => !spawnSync('notify-send', ['--version']).error;
+
+const readLogTail = (logFile: string, lines: number): string[] => {
+  if (!existsSync(logFile)) {
+    return [];
+  }
+  return readFileSync(logFile, 'utf8').trimEnd().split('\n').filter(Boolean).slice(-lines);
+};
+
+const resolveSettings = (options: StartOptions): NotificationSettings => {
+  const current = getConfig().notifications ?? DEFAULT_NOTIFICATION_SETTINGS;
+  return {
+    events: options.events ? parseNotifyEvents(options.events) : current.events,
+    before: options.before ? parseNotifyOffsets(options.before) : current.before,
+  };
+};
+
+export const registerNotifyCommand = (program: Command): void => {
+  const notify = program
+    .command('notify')
+    .description('Run desktop notifications for prayer times in the background');
+
+  notify
+    .command('start')
+    .description('Start the notification daemon')
+    .option('-e, --events <list>', 'Events to announce (e.g. fajr,maghrib,isha or none)')
+    .option('-b, --before <list>', 'Reminders in minutes before events (e.g. Maghrib=10,Imsak=15)')
+    .action((options: StartOptions) => {
+      try {
+        const config = getConfig();
+        if (!config.location) {
+          throw new Error('Location is required. Run schedule first.');
+        }
+        const settings = resolveSettings(options);
+        if (options.events || options.before) {
+          setConfig({ notifications: settings });
+        }
+
+        const running = readNotifierPid();
+        if (running) {
+          console.log(`Notifications are already running (pid ${running}).`);
+          if (options.events || options.before) {
+            console.log(pc.dim('Restart with roza notify stop && roza notify start to apply.'));
+          }
+          return;
+        }
+        if (!hasNotifySend()) {
+          throw new Error('notify-send was not found. Install libnotify (e.g. libnotify-bin).');
+        }
+
+        const { logFile } = getNotifierPaths();
+        rotateLog(logFile);
+        const out = openSync(logFile, 'a');
+        const child = spawn(process.execPath, [process.argv[1], 'notify', 'run'], {
+          detached: true,
+          stdio: ['ignore', out, out],
+        });
+        if (!child.pid) {
+          throw new Error('Failed to start the notification daemon.');
+        }
+        writeNotifierPid(child.pid);
+        child.unref();
+
+        console.log(pc.green(`Notifications started (pid ${child.pid}).`));
+        console.log(`Alerts: ${describeNotifySettings(settings)}`);
+        console.log(pc.dim(logFile));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(pc.red(message));
+        process.exitCode = 1;
+      }
+    });
+
+  notify
+    .command('stop')
+    .description('Stop the notification daemon')
+    .action(() => {
+      const pid = readNotifierPid();
+      if (!pid) {
+        console.log('Notifications are not running.');
+        return;
+      }
+      try {
+        process.kill(pid, 'SIGTERM');
+        clearNotifierPid();
+        console.log(`Stopped notifications (pid ${pid}).`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(pc.red(`Failed to stop pid ${pid}: ${message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  notify
+    .command('status')
+    .description('Show whether notifications are running')
+    .action(() => {
+      const pid = readNotifierPid();
+      const { logFile } = getNotifierPaths();
+
+      console.log(pid ? pc.green(`Running (pid ${pid})`) : pc.dim('Not running'));
+      try {
+        const settings = getConfig().notifications ?? DEFAULT_NOTIFICATION_SETTINGS;
+        console.log(`Alerts: ${describeNotifySettings(settings)}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(pc.red(message));
+        process.exitCode = 1;
+      }
+      console.log(`Log: ${logFile}`);
+      const tail = readLogTail(logFile, 5);
+      if (tail.length > 0) {
+        console.log('');
+        tail.forEach((line) => console.log(pc.dim(line)));
+      }
+    });
+
+  notify
+    .command('send <alert>')
+    .description("Send one of today's alerts now (e.g. Fajr or Maghrib-10), for timers")
+    .option('--date <date>', 'Only send when today is this date (YYYY-MM-DD)')
+    .action(async (name: string, options: SendOptions) => {
+      try {
+        const config = getConfig();
+        const todayKey = formatDateKey(new Date(), config.timezone ?? config.coordinates?.timezone);
+        // Cron lines carry no year, so a stale entry would otherwise fire a year later.
+        if (options.date && parseStrictDateKey(options.date) !== todayKey) {
+          console.log(
+            pc.dim(`Skipped: the ${name} alert is for ${options.date}, not ${todayKey}.`),
+          );
+          return;
+        }
+        const { alerts } = await loadDailyAlerts(config, todayKey);
+        const key = name.includes('-') ? name : `${name}-0`;
+        const alert = alerts.find((item) => item.key.toLowerCase() === key.toLowerCase());
+        if (!alert) {
+          console.log(pc.dim(`No ${name} alert is scheduled for ${todayKey}.`));
+          return;
+        }
+        sendNotification(alert, (message) => {
+          console.error(pc.red(message));
+          process.exitCode = 1;
+        });
+        console.log(`${alert.title}: ${alert.body}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(pc.red(message));
+        process.exitCode = 1;
+      }
+    });
+
+  notify
+    .command('run', { hidden: true })
+    .description('Run the notification loop in the foreground')
+    .action(async () => {
+      const log = (message: string): void => {
+        console.log(`[${new Date().toISOString()}] ${message}`);
+      };
+      const stop = (): void => {
+        log('Stopping.');
+        if (readNotifierPid() === process.pid) {
+          clearNotifierPid();
+        }
+        process.exit(0);
+      };
+      process.on('SIGINT', stop);
+      process.on('SIGTERM', stop);
+
+      writeNotifierPid(process.pid);
+      log(`Started (pid ${process.pid}).`);
+      await runNotifier(log);
+    });
+};
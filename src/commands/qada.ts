@@ -0,0 +1,223 @@
+import type { Command } from 'commander';
+import pc from 'picocolors';
+
+import {
+  calcQadaBalance,
+  projectQadaPayoff,
+  QADA_PACE_WINDOW_DAYS,
+  sumCounts,
+  type QadaBalance,
+  type QadaProjection,
+} from '../lib/qada.js';
+import {
+  PRAYERS,
+  addQadaMakeups,
+  getConfig,
+  getQadaLedger,
+  listAttendance,
+  removeQadaMakeups,
+  setQadaStartingBalance,
+} from '../lib/store.js';
+import { reportAttendanceError, resolveFlagDate } from '../utils/attendance-utils.js';
+import { formatDateKey } from '../utils/date-utils.js';
+import { printJson, printPlain, resolveOutputFormat } from '../utils/output-format.js';
+import {
+  formatCounts,
+  parsePositiveNumber,
+  parseQadaBalance,
+  parseQadaMakeups,
+} from '../utils/qada-utils.js';
+
+type StatusOptions = {
+  pace?: string;
+  json?: boolean;
+  format?: string;
+};
+
+type MakeupOptions = {
+  count?: string;
+  date?: string;
+};
+
+const LEFT_PAD = '  ';
+const renderLine = (text = ''): void => {
+  console.log(text ? `${LEFT_PAD}${text}` : '');
+};
+
+const accent = (value: string): string => `\x1b[38;2;128;240;151m${value}\x1b[0m`;
+
+const loadBalance = (): { balance: QadaBalance; todayKey: string } => {
+  const todayKey = formatDateKey(new Date(), getConfig().timezone);
+  return { balance: calcQadaBalance(listAttendance(), getQadaLedger(), todayKey), todayKey };
+};
+
+const printRemaining = (): void => {
+  const { balance } = loadBalance();
+  console.log(pc.dim(`Remaining: ${balance.totalRemaining} (${formatCounts(balance.remaining)})`));
+};
+
+const parseMakeupCount = (value: string | undefined): number => {
+  const count = value ? parsePositiveNumber(value, 'Count') : 1;
+  if (!Number.isInteger(count)) {
+    throw new Error('Count must be a whole number');
+  }
+  return count;
+};
+
+const describeProjection = (projection: QadaProjection, totalRemaining: number): string => {
+  if (totalRemaining === 0) {
+    return 'Nothing left to make up.';
+  }
+  const pace = projection.observed
+    ? `${projection.pace}/day over the last ${QADA_PACE_WINDOW_DAYS} days`
+    : `${projection.pace}/day`;
+  if (projection.daysLeft === null) {
+    return `No make-ups in the last ${QADA_PACE_WINDOW_DAYS} days. Try roza qada status --pace 5.`;
+  }
+  return `At ${pace}: paid off in ${projection.daysLeft} days (${projection.finishDate})`;
+};
+
+const renderBalanceTable = (balance: QadaBalance): void => {
+  const headers = ['Prayer', 'Missed', 'Past years', 'Made up', 'Remaining'];
+  const rows = [
+    ...PRAYERS.map((prayer) => [
+      prayer,
+      balance.missed[prayer],
+      balance.startingBalance[prayer],
+      balance.madeUp[prayer],
+      balance.remaining[prayer],
+    ]),
+    [
+      'Total',
+      sumCounts(balance.missed),
+      sumCounts(balance.startingBalance),
+      sumCounts(balance.madeUp),
+      balance.totalRemaining,
+    ],
+  ];
+  const widths = headers.map((header) => Math.max(header.length, 5));
+  const formatRow = (cells: ReadonlyArray<string | number>): string =>
+    cells
+      .map((cell, idx) => (idx === 0 ? String(cell).padEnd(8) : String(cell).padStart(widths[idx])))
+      .join('  ');
+
+  renderLine(pc.dim(formatRow(headers)));
+  rows.forEach((row, idx) => {
+    const line = formatRow(row);
+    renderLine(idx === rows.length - 1 ? accent(line) : line);
+  });
+};
+
+export const registerQadaCommand = (program: Command): void => {
+  const qada = program
+    .command('qada')
+    .description('Track missed prayers (qada) and the make-ups that pay them off');
+
+  qada
+    .command('status', { isDefault: true })
+    .description('Show the remaining balance and a payoff projection')
+    .option('--pace <count>', 'Project the payoff at this many make-ups per day')
+    .option('--json', 'Print machine-readable JSON (same as --format json)')
+    .option('--format <format>', 'Output format: table, plain or json')
+    .action((options: StatusOptions) => {
+      try {
+        const format = resolveOutputFormat(options);
+        const pace = options.pace ? parsePositiveNumber(options.pace, 'Pace') : undefined;
+        const { balance, todayKey } = loadBalance();
+        const projection = projectQadaPayoff(balance, getQadaLedger(), todayKey, pace);
+
+        if (format === 'json') {
+          printJson({ kind: 'qada', balance, projection });
+          return;
+        }
+        if (format === 'plain') {
+          printPlain([
+            ...PRAYERS.map((prayer) => [
+              prayer,
+              balance.missed[prayer],
+              balance.startingBalance[prayer],
+              balance.madeUp[prayer],
+              balance.remaining[prayer],
+            ]),
+            ['days_left', projection.daysLeft ?? ''],
+            ['finish_date', projection.finishDate ?? ''],
+          ]);
+          return;
+        }
+
+        renderLine();
+        renderLine(accent('Qada'));
+        renderLine();
+        renderBalanceTable(balance);
+        renderLine();
+        if (balance.from && balance.to) {
+          renderLine(
+            `${pc.dim('• Missed counted from:')} ${balance.from} → ${balance.to} ${pc.dim('(days with no prayers logged are skipped)')}`,
+          );
+        }
+        renderLine(
+          `${pc.dim('• Projection:')} ${describeProjection(projection, balance.totalRemaining)}`,
+        );
+        renderLine();
+        renderLine(
+          pc.dim(
+            'Log make-ups with roza qada add fajr,asr. Set older debt with roza qada balance.',
+          ),
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(pc.red(message));
+        process.exitCode = 1;
+      }
+    });
+
+  qada
+    .command('add <prayers>')
+    .description('Log make-up prayers, e.g. fajr,asr')
+    .option('-n, --count <count>', 'How many of each named prayer (default 1)')
+    .option('-d, --date <date>', 'Date they were prayed in YYYY-MM-DD format (default: today)')
+    .action((prayers: string, options: MakeupOptions) => {
+      try {
+        const counts = parseQadaMakeups(prayers, parseMakeupCount(options.count));
+        const dateKey = resolveFlagDate(options.date, getConfig().timezone);
+        addQadaMakeups(dateKey, counts);
+        console.log(`${dateKey}  Made up: ${formatCounts(counts)}`);
+        printRemaining();
+      } catch (error) {
+        reportAttendanceError(error);
+      }
+    });
+
+  qada
+    .command('remove <prayers>')
+    .description('Take back make-up prayers logged by mistake, e.g. fajr')
+    .option('-n, --count <count>', 'How many of each named prayer (default 1)')
+    .option('-d, --date <date>', 'Date they were logged for in YYYY-MM-DD format (default: today)')
+    .action((prayers: string, options: MakeupOptions) => {
+      try {
+        const counts = parseQadaMakeups(prayers, parseMakeupCount(options.count));
+        const dateKey = resolveFlagDate(options.date, getConfig().timezone);
+        removeQadaMakeups(dateKey, counts);
+        console.log(`${dateKey}  Removed: ${formatCounts(counts)}`);
+        printRemaining();
+      } catch (error) {
+        reportAttendanceError(error);
+      }
+    });
+
+  qada
+    .command('balance <counts>')
+    .description('Set prayers owed from before tracking, e.g. 300 or fajr=120,asr=90')
+    .action((input: string) => {
+      try {
+        const counts = parseQadaBalance(input);
+        setQadaStartingBalance(counts);
+        console.log(`Starting balance: ${formatCounts(counts)}`);
+        printRemaining();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(pc.red(message));
+        process.exitCode = 1;
+      }
+    });
+};
@@ -1,31 +1,47 @@
 import type { Command } from 'commander';
 import pc from 'picocolors';
 
-import {
-  fetchTimingsByAddress,
-  fetchTimingsByCity,
-  type PrayerData,
-  type PrayerTimings,
-} from '../lib/api.js';
-import { calcSummary } from '../lib/recap.js';
+import type { PrayerData, PrayerTimings } from '../lib/api.js';
+import { calcQadaBalance, type QadaCounts } from '../lib/qada.js';
+import { calcSummary, type RecapSummary } from '../lib/recap.js';
+import { createTimingsContext, resolveDailyTimings, type TimingsContext } from '../lib/timings.js';
 import {
   addDays,
   formatDateLabel,
+  getHijriYear,
   parseDateKey,
   parseDays,
   parseHijriYear,
   resolveRamadanCalendar,
   toDateKeyFromGregorian,
+  toHijriSettings,
 } from '../utils/ramadan-utils.js';
 import {
   PRAYERS,
   getConfig,
+  getFastLedger,
+  getQadaLedger,
   listAttendance,
   type DayAttendance,
-  type LocationConfig,
 } from '../lib/store.js';
+import {
+  calcVoluntaryFasts,
+  SUNNAH_FAST_KINDS,
+  SUNNAH_FAST_LABELS,
+  type VoluntaryFastSummary,
+} from '../lib/sunnah.js';
 import { stripAnsi } from '../utils/cli-format.js';
 import { formatDateKey } from '../utils/date-utils.js';
+import { formatCounts } from '../utils/qada-utils.js';
+import {
+  printJson,
+  printPlain,
+  resolveOutputFormat,
+  toAttendanceJson,
+  type AttendanceJson,
+  type OutputFormat,
+  type RateJson,
+} from '../utils/output-format.js';
 import { parseTimeToMinutes } from '../utils/time-utils.js';
 
 type RecapOptions = {
@@ -34,6 +50,9 @@ type RecapOptions = {
   ramadanStart?: string;
   ramadanDays?: string;
   ramadanYear?: string;
+  offline?: boolean;
+  json?: boolean;
+  format?: string;
 };
 
 type RamadanDate = {
@@ -45,6 +64,20 @@ type PrayerGrid = {
   rows: string[];
 };
 
+type RecapJson = {
+  kind: 'recap';
+  period:
+    | { type: 'ramadan'; hijriYear: number; from: string | null; to: string | null }
+    | { type: 'range'; days: number; from: string | null; to: string | null };
+  summary: RecapSummary;
+  winRate: { cutoff: string; prayer: RateJson; fasting: RateJson | null };
+  fastingDays: number | null;
+  qada: { remaining: QadaCounts; totalRemaining: number };
+  // Fasts outside Ramadan, for range recaps only.
+  voluntaryFasts: VoluntaryFastSummary | null;
+  days: AttendanceJson[];
+};
+
 const LEFT_PAD = '  ';
 const renderLine = (text = ''): void => {
   if (!text) {
@@ -132,36 +165,23 @@ const getNowMinutes = (timezone?: string): number => {
 };
 
 const resolveTodayTimings = async (
-  location: LocationConfig,
+  context: TimingsContext,
   dateKey: string,
-  method?: number,
-  school?: number,
 ): Promise<{ timings: PrayerTimings; timezone: string } | null> => {
   const [year, month, day] = dateKey.split('-').map((part) => Number(part));
   const date = new Date(year, month - 1, day);
   try {
-    const data =
-      location.type === 'city'
-        ? await fetchTimingsByCity({
-            city: location.city,
-            country: location.country,
-            method,
-            school,
-            date,
-          })
-        : await fetchTimingsByAddress({
-            address: location.address,
-            method,
-            school,
-            date,
-          });
+    const data = await resolveDailyTimings(context, date);
     return { timings: data.timings, timezone: data.meta.timezone };
   } catch {
     return null;
   }
 };
 
-const resolveWinRateCutoffDateKey = async (config: ReturnType<typeof getConfig>): Promise<string> => {
+const resolveWinRateCutoffDateKey = async (
+  config: ReturnType<typeof getConfig>,
+  offline?: boolean,
+): Promise<string> => {
   const todayKey = getTodayDateKey(config.timezone);
   const yesterdayKey = addDays(todayKey, -1);
 
@@ -170,10 +190,8 @@ const resolveWinRateCutoffDateKey = async (config: ReturnType<typeof getConfig>)
   }
 
   const timing = await resolveTodayTimings(
-    config.location,
+    createTimingsContext(config.location, config, { offline }),
     todayKey,
-    config.method,
-    config.school,
   );
   if (!timing) {
     return yesterdayKey;
@@ -246,6 +264,47 @@ const buildRamadanDatesFromCalendar = (
 const buildRamadanDatesFromStart = (start: string, days: number): ReadonlyArray<RamadanDate> =>
   Array.from({ length: days }, (_, idx) => ({ dateKey: addDays(start, idx) }));
 
+/**
+ * The overall qada balance, not just the recap period's share of it.
+ */
+const getQadaSummary = (timezone?: string): RecapJson['qada'] => {
+  const { remaining, totalRemaining } = calcQadaBalance(
+    listAttendance(),
+    getQadaLedger(),
+    getTodayDateKey(timezone),
+  );
+  return { remaining, totalRemaining };
+};
+
+const renderQadaLine = (qada: RecapJson['qada']): void => {
+  if (qada.totalRemaining === 0) {
+    return;
+  }
+  renderLine(
+    `${pc.dim('• Qada remaining:')} ${qada.totalRemaining} prayers ${pc.dim(`(${formatCounts(qada.remaining)} · roza qada)`)}`,
+  );
+};
+
+const renderVoluntaryFasts = (summary: VoluntaryFastSummary): void => {
+  if (summary.total === 0) {
+    return;
+  }
+  const title = 'Voluntary fasts';
+  renderLine();
+  renderLine(accent(title));
+  renderLine(pc.dim('─'.repeat(title.length)));
+  renderLine();
+  renderLine(
+    `${pc.dim('• Fasted:')} ${summary.total} ${summary.total === 1 ? 'day' : 'days'} ${pc.dim(`(${summary.recommended} on recommended days)`)}`,
+  );
+  const kinds = SUNNAH_FAST_KINDS.filter((kind) => summary.byKind[kind] > 0);
+  if (kinds.length > 0) {
+    renderLine(
+      `${pc.dim('• Recommended:')} ${kinds.map((kind) => `${SUNNAH_FAST_LABELS[kind]} ${summary.byKind[kind]}`).join(pc.dim(' · '))}`,
+    );
+  }
+};
+
 const RECAP_ART = [
   '██████╗ ███████╗ ██████╗ █████╗ ██████╗ ',
   '██╔══██╗██╔════╝██╔════╝██╔══██╗██╔══██╗',
@@ -261,16 +320,58 @@ const renderRecapHeader = (): void => {
   renderLine();
 };
 
+const outputRecap = (format: Exclude<OutputFormat, 'table'>, json: RecapJson): void => {
+  if (format === 'json') {
+    printJson(json);
+    return;
+  }
+
+  const { period, summary, winRate } = json;
+  const rate = (name: string, value: RateJson) => [
+    name,
+    value.percent,
+    value.completed,
+    value.total,
+  ];
+  printPlain([
+    ['period', period.type === 'ramadan' ? `ramadan ${period.hijriYear}` : `${period.days}d`],
+    ['from', period.from ?? ''],
+    ['to', period.to ?? ''],
+    ['prayers_completed', summary.percent, summary.completed, summary.total],
+    ['perfect_days', summary.perfectDays, summary.totalDays],
+    rate('prayer_win_rate', winRate.prayer),
+    ...(winRate.fasting ? [rate('fasting_win_rate', winRate.fasting)] : []),
+    ...(json.fastingDays !== null ? [['fasting_days', json.fastingDays, summary.totalDays]] : []),
+    ['qada_remaining', json.qada.totalRemaining],
+    ...(json.voluntaryFasts
+      ? [['voluntary_fasts', json.voluntaryFasts.total, json.voluntaryFasts.recommended]]
+      : []),
+  ]);
+};
+
 export const registerRecapCommand = (program: Command): void => {
   program
     .command('recap')
     .description('Recap with prayer consistency visualization')
     .option('-r, --range <range>', 'Range like 7d or 30d')
     .option('--ramadan', 'Full Ramadan recap (Hijri month 9)')
-    .option('--ramadan-start <date>', 'Ramadan start date in YYYY-MM-DD (Indonesia: 2026-02-19)')
+    .option('--ramadan-start <date>', 'Ramadan start date in YYYY-MM-DD (overrides the saved start)')
     .option('--ramadan-days <days>', 'Ramadan length in days (29 or 30)')
     .option('--ramadan-year <year>', 'Hijri year for Ramadan (e.g. 1447)')
+    .option('--offline', 'Calculate prayer times locally instead of calling the API')
+    .option('--json', 'Print machine-readable JSON (same as --format json)')
+    .option('--format <format>', 'Output format: table, plain or json')
     .action(async (options: RecapOptions) => {
+      let format: OutputFormat;
+      try {
+        format = resolveOutputFormat(options);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        renderLine(pc.red(message));
+        process.exitCode = 1;
+        return;
+      }
+
       const useRamadan =
         Boolean(options.ramadan || options.ramadanStart || options.ramadanDays) || !options.range;
 
@@ -281,9 +382,11 @@ export const registerRecapCommand = (program: Command): void => {
           process.exitCode = 1;
           return;
         }
-        const winRateCutoff = await resolveWinRateCutoffDateKey(config);
+        const winRateCutoff = await resolveWinRateCutoffDateKey(config, options.offline);
 
-        const ramadanYear = options.ramadanYear ? parseHijriYear(options.ramadanYear) : 1447;
+        const ramadanYear = options.ramadanYear
+          ? parseHijriYear(options.ramadanYear)
+          : getHijriYear(formatDateKey(new Date(), config.timezone), toHijriSettings(config));
         const ramadanDays = options.ramadanDays ? parseDays(options.ramadanDays) : 30;
         const ramadanStart = options.ramadanStart ? parseDateKey(options.ramadanStart) : undefined;
 
@@ -291,10 +394,8 @@ export const registerRecapCommand = (program: Command): void => {
           ? buildRamadanDatesFromStart(ramadanStart, ramadanDays)
           : buildRamadanDatesFromCalendar(
               await resolveRamadanCalendar(
-                config.location,
+                createTimingsContext(config.location, config, { offline: options.offline }),
                 ramadanYear,
-                config.method,
-                config.school,
               ),
             );
 
@@ -311,12 +412,35 @@ export const registerRecapCommand = (program: Command): void => {
           };
         });
 
-        if (rows.length === 0) {
+        if (rows.length === 0 && format === 'table') {
           renderLine(pc.dim('No Ramadan records yet.'));
           return;
         }
 
         const summary = calcSummary(rows);
+        const fastedCount = rows.reduce((sum, row) => sum + (row.fasted ? 1 : 0), 0);
+        const prayerRate = calcPrayerRate(rows, winRateCutoff);
+        const fastingRate = calcFastingRate(rows, winRateCutoff);
+
+        if (format !== 'table') {
+          outputRecap(format, {
+            kind: 'recap',
+            period: {
+              type: 'ramadan',
+              hijriYear: ramadanYear,
+              from: rows[0]?.date ?? null,
+              to: rows[rows.length - 1]?.date ?? null,
+            },
+            summary,
+            winRate: { cutoff: winRateCutoff, prayer: prayerRate, fasting: fastingRate },
+            fastingDays: fastedCount,
+            qada: getQadaSummary(config.timezone),
+            voluntaryFasts: null,
+            days: rows.map(toAttendanceJson),
+          });
+          return;
+        }
+
         const chart = buildPrayerGrid(rows);
 
         renderRecapHeader();
@@ -329,18 +453,16 @@ export const registerRecapCommand = (program: Command): void => {
         renderLine(
           `${pc.dim('• Prayer perfect days:')} ${summary.perfectDays}/${summary.totalDays} ${pc.dim('(all 5 prayers)')}`,
         );
-        const fastedCount = rows.reduce((sum, row) => sum + (row.fasted ? 1 : 0), 0);
         renderLine(`${pc.dim('• Fasting days:')} ${fastedCount}/${rows.length}`);
-        const prayerRate = calcPrayerRate(rows, winRateCutoff);
         const prayerCrown = prayerRate.percent === 100 ? ' 👑' : '';
         renderLine(
           `${pc.dim('• Prayer win rate:')} ${accent(`${prayerRate.percent}%`)}${prayerCrown} ${pc.dim(`(${prayerRate.completed}/${prayerRate.total} perfect days)`)}`,
         );
-        const fastingRate = calcFastingRate(rows, winRateCutoff);
         const fastingCrown = fastingRate.percent === 100 ? ' 👑' : '';
         renderLine(
           `${pc.dim('• Fasting win rate:')} ${accent(`${fastingRate.percent}%`)}${fastingCrown} ${pc.dim(`(${fastingRate.completed}/${fastingRate.total} days)`)}`,
         );
+        renderQadaLine(getQadaSummary(config.timezone));
         renderLine();
 
         renderLine(accent(chart.label));
@@ -355,14 +477,40 @@ export const registerRecapCommand = (program: Command): void => {
       const rangeDays = parseRange(options.range);
       const rows = filterByDays(listAttendance(), rangeDays);
 
-      if (rows.length === 0) {
+      if (rows.length === 0 && format === 'table') {
         renderLine(pc.dim('No attendance records yet.'));
         return;
       }
 
       const summary = calcSummary(rows);
+      const winRateCutoff = await resolveWinRateCutoffDateKey(getConfig(), options.offline);
+      const winRate = calcPrayerRate(rows, winRateCutoff);
+      const voluntaryFasts = calcVoluntaryFasts(
+        rows,
+        getFastLedger(),
+        toHijriSettings(getConfig()),
+      );
+
+      if (format !== 'table') {
+        outputRecap(format, {
+          kind: 'recap',
+          period: {
+            type: 'range',
+            days: rangeDays,
+            from: rows[0]?.date ?? null,
+            to: rows[rows.length - 1]?.date ?? null,
+          },
+          summary,
+          winRate: { cutoff: winRateCutoff, prayer: winRate, fasting: null },
+          fastingDays: null,
+          qada: getQadaSummary(getConfig().timezone),
+          voluntaryFasts,
+          days: rows.map(toAttendanceJson),
+        });
+        return;
+      }
+
       const chart = buildPrayerGrid(rows);
-      const winRateCutoff = await resolveWinRateCutoffDateKey(getConfig());
 
       renderRecapHeader();
       renderLine(`${pc.dim('• Consistency snapshot')}`);
@@ -373,11 +521,11 @@ export const registerRecapCommand = (program: Command): void => {
       renderLine(
         `${pc.dim('• Prayer perfect days:')} ${summary.perfectDays}/${summary.totalDays} ${pc.dim('(all 5 prayers)')}`,
       );
-      const winRate = calcPrayerRate(rows, winRateCutoff);
       const winRateCrown = winRate.percent === 100 ? ' 👑' : '';
       renderLine(
         `${pc.dim('• Prayer win rate:')} ${accent(`${winRate.percent}%`)}${winRateCrown} ${pc.dim(`(${winRate.completed}/${winRate.total} perfect days)`)}`,
       );
+      renderQadaLine(getQadaSummary(getConfig().timezone));
       renderLine();
 
       renderLine(accent(chart.label));
@@ -386,5 +534,6 @@ export const registerRecapCommand = (program: Command): void => {
       chart.rows.forEach((line) => renderLine(line));
       renderLine();
       renderLine(pc.dim('Legend: each column = day, each row = prayer'));
+      renderVoluntaryFasts(voluntaryFasts);
     });
 };
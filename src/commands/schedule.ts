@@ -1,54 +1,142 @@
-import { cancel, isCancel, select, text } from '@clack/prompts';
+import { cancel, intro, isCancel, outro, select, text } from '@clack/prompts';
 import type { Command } from 'commander';
 import { spawnSync } from 'node:child_process';
+import { writeFileSync } from 'node:fs';
 import ora from 'ora';
 import pc from 'picocolors';
 import { erase } from 'sisteransi';
 
 import quotesJson from '../data/quran-quotes.json' with { type: 'json' };
+import type { PrayerData } from '../lib/api.js';
+import { findCity } from '../lib/gazetteer.js';
+import { CUSTOM_METHOD_ID } from '../lib/prayer-calc.js';
+import { promptCityLocation, promptCoordsLocation, promptCustomMethod } from '../lib/setup.js';
 import {
-  fetchCalendarByAddress,
-  fetchCalendarByCity,
-  fetchHijriByDate,
-  fetchHijriCalendarByAddress,
-  fetchHijriCalendarByCity,
-  fetchTimingsByAddress,
-  fetchTimingsByCity,
-  type PrayerData,
-  type PrayerTimings,
-} from '../lib/api.js';
-import { getConfig, setConfig, type LocationConfig } from '../lib/store.js';
+  getConfig,
+  HIGH_LATITUDE_RULES,
+  setConfig,
+  type CustomMethod,
+  type HighLatitudeRule,
+  type LocationConfig,
+} from '../lib/store.js';
+import type { Timetable } from '../lib/timetable.js';
+import {
+  createTimingsContext,
+  describeLocation,
+  detectHighLatitudeAdjustment,
+  type HighLatitudeNotice,
+  resolveDailyTimings,
+  resolveHijriMonthCalendar,
+  resolveMonthlyCalendar,
+} from '../lib/timings.js';
 import { padAnsi, stripAnsi } from '../utils/cli-format.js';
-import { extractTime, parseTimeToMinutes } from '../utils/time-utils.js';
-import { parseHijriYear } from '../utils/ramadan-utils.js';
+import { parseElevation, parseLatitude, parseLongitude } from '../utils/coords-utils.js';
+import { buildScheduleIcs, parseAlarmMinutes } from '../utils/ics-utils.js';
+import { describeCustomMethod } from '../utils/method-utils.js';
+import {
+  printJson,
+  printPlain,
+  resolveOutputFormat,
+  SCHEDULE_TIMES,
+  toHijriJson,
+  toTimingsJson,
+  type HijriJson,
+  type OutputFormat,
+  type TimingsJson,
+} from '../utils/output-format.js';
+import { computePrayerStatus, formatDuration, getNowInTimezone } from '../utils/prayer-status.js';
+import { extractTime } from '../utils/time-utils.js';
+import {
+  HIJRI_CALENDARS,
+  resolveHijriMonthRange,
+  resolveHijriParts,
+  type HijriCalendar,
+} from '../lib/hijri.js';
+import { parseStrictDateKey } from '../utils/attendance-utils.js';
+import {
+  addDays,
+  getHijriYear,
+  parseHijriAdjustment,
+  parseHijriYear,
+  toHijriSettings,
+} from '../utils/ramadan-utils.js';
+import { registerTimerCommands } from './timers.js';
 
 type ScheduleOptions = {
   city?: string;
   country?: string;
   address?: string;
+  lat?: string;
+  lon?: string;
+  elevation?: string;
+  label?: string;
   method?: string;
   school?: string;
   date?: string;
   month?: string;
   ramadan?: boolean;
   ramadanYear?: string;
+  hijriCalendar?: string;
+  hijriAdjustment?: string;
+  ramadanStart?: string;
+  clearRamadanStart?: string;
+  customMethod?: boolean;
+  highLatitude?: string;
+  offline?: boolean;
   save?: boolean;
+  json?: boolean;
+  format?: string;
+  ics?: string;
+  alarm?: string;
 };
 
 type PrayerName = 'Fajr' | 'Dhuhr' | 'Asr' | 'Maghrib' | 'Isha';
 
-type PrayerStatus = {
-  current?: PrayerName;
-  next?: PrayerName;
-  nextTime?: string;
-  minutesAway?: number;
-};
-
 type QuranQuote = {
   quranQuote: string;
   reference: string;
 };
 
+type ScheduleDayJson = {
+  date: string;
+  hijri: HijriJson;
+  timings: TimingsJson;
+  timetable: boolean;
+};
+
+type DailyScheduleJson = ScheduleDayJson & {
+  kind: 'daily';
+  location: string;
+  timezone: string;
+  method: { id: number; name: string };
+  iqamah: Partial<Record<PrayerName, string>> | null;
+  status: {
+    current: PrayerName | null;
+    next: PrayerName | null;
+    nextTime: string | null;
+    minutesAway: number | null;
+  };
+  highLatitude: HighLatitudeNotice | null;
+};
+
+type MonthlyScheduleJson = {
+  kind: 'month';
+  month: string;
+  location: string;
+  timezone: string;
+  days: ScheduleDayJson[];
+  highLatitude: HighLatitudeNotice | null;
+};
+
+type RamadanScheduleJson = {
+  kind: 'ramadan';
+  hijriYear: number;
+  location: string;
+  timezone: string;
+  days: Array<ScheduleDayJson & { day: number }>;
+  highLatitude: HighLatitudeNotice | null;
+};
+
 const PRAYER_ORDER: PrayerName[] = ['Fajr', 'Dhuhr', 'Asr', 'Maghrib', 'Isha'];
 const QUOTES = quotesJson as QuranQuote[];
 
@@ -100,135 +188,117 @@ const parseOptionalNumber = (value?: string): number | undefined => {
   return parsed;
 };
 
-const getTodayDateKey = (): string => {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  const day = String(now.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-};
-
-const toDateKeyFromGregorian = (dateValue: string): string => {
-  const match = /^(\d{2})-(\d{2})-(\d{4})$/.exec(dateValue);
+const parseHijriCalendar = (value?: string): HijriCalendar | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const match = HIJRI_CALENDARS.find((calendar) => calendar === value);
   if (!match) {
-    return dateValue;
+    throw new Error(`Hijri calendar must be one of: ${HIJRI_CALENDARS.join(', ')}`);
   }
-  const [, day, month, year] = match;
-  return `${year}-${month}-${day}`;
+  return match;
 };
 
-const getNowInTimezone = (timezone?: string): { label: string; minutes: number } => {
-  const date = new Date();
-  if (timezone) {
-    try {
-      const formatter = new Intl.DateTimeFormat('en-GB', {
-        timeZone: timezone,
-        hour: '2-digit',
-        minute: '2-digit',
-        hour12: false,
-      });
-
-      const parts = formatter.formatToParts(date);
-      const hourPart = parts.find((part) => part.type === 'hour')?.value;
-      const minutePart = parts.find((part) => part.type === 'minute')?.value;
-
-      if (hourPart && minutePart) {
-        const hour = Number(hourPart);
-        const minute = Number(minutePart);
-        return {
-          label: `${hourPart.padStart(2, '0')}:${minutePart.padStart(2, '0')}`,
-          minutes: hour * 60 + minute,
-        };
-      }
-    } catch {
-      // Fallback to local time below.
-    }
+const editCustomMethod = async (existing?: CustomMethod): Promise<CustomMethod> => {
+  if (!process.stdin.isTTY) {
+    throw new Error('Run --custom-method in a terminal to edit the custom method.');
   }
-
-  const hour = date.getHours();
-  const minute = date.getMinutes();
-  return {
-    label: `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`,
-    minutes: hour * 60 + minute,
-  };
+  intro('Custom method');
+  const custom = await promptCustomMethod(existing);
+  outro(pc.dim(describeCustomMethod(custom)));
+  return custom;
 };
 
-const formatDuration = (totalMinutes?: number): string => {
-  if (totalMinutes === undefined) {
-    return '--';
+// An announced start can differ from the calendar by local moon sighting, as
+// --hijri-adjustment can, but by no more than this.
+const MAX_RAMADAN_START_SHIFT = 2;
+
+/**
+ * Applies --ramadan-start and --clear-ramadan-start to the saved announced
+ * 1 Ramadan dates, which are keyed by Hijri year.
+ */
+const resolveRamadanStarts = (
+  current: Readonly<Record<string, string>> | undefined,
+  options: Pick<ScheduleOptions, 'ramadanStart' | 'clearRamadanStart'>,
+  calendar?: HijriCalendar,
+): Record<string, string> | undefined => {
+  let next: Record<string, string> = { ...current };
+  if (options.clearRamadanStart !== undefined) {
+    const year = String(parseHijriYear(options.clearRamadanStart));
+    if (!next[year]) {
+      throw new Error(`No announced start is saved for Ramadan ${year}.`);
+    }
+    next = Object.fromEntries(Object.entries(next).filter(([key]) => key !== year));
   }
-
-  const minutes = Math.max(0, Math.round(totalMinutes));
-  const hours = Math.floor(minutes / 60);
-  const remainder = minutes % 60;
-  if (hours > 0) {
-    return `${hours}h ${remainder}m`;
+  if (options.ramadanStart !== undefined) {
+    const date = parseStrictDateKey(options.ramadanStart);
+    const { year } = resolveHijriParts(date, { calendar });
+    const { start } = resolveHijriMonthRange(year, 9, { calendar });
+    if (
+      date < addDays(start, -MAX_RAMADAN_START_SHIFT) ||
+      date > addDays(start, MAX_RAMADAN_START_SHIFT)
+    ) {
+      throw new Error(
+        `${date} is not within ${MAX_RAMADAN_START_SHIFT} days of 1 Ramadan ${year} (${start} in the calendar).`,
+      );
+    }
+    next[String(year)] = date;
   }
-  return `${remainder}m`;
+  return Object.keys(next).length > 0 ? next : undefined;
 };
 
-const computePrayerStatus = (timings: PrayerTimings, nowMinutes: number): PrayerStatus => {
-  const minutesByPrayer: Record<PrayerName, number | null> = {
-    Fajr: parseTimeToMinutes(timings.Fajr),
-    Dhuhr: parseTimeToMinutes(timings.Dhuhr),
-    Asr: parseTimeToMinutes(timings.Asr),
-    Maghrib: parseTimeToMinutes(timings.Maghrib),
-    Isha: parseTimeToMinutes(timings.Isha),
-  };
-
-  let next: PrayerName | undefined;
-  let nextMinutes: number | undefined;
-
-  for (const prayer of PRAYER_ORDER) {
-    const minutes = minutesByPrayer[prayer];
-    if (minutes === null) {
-      continue;
-    }
-
-    if (nowMinutes < minutes) {
-      next = prayer;
-      nextMinutes = minutes;
-      break;
-    }
+const parseHighLatitudeRule = (value?: string): HighLatitudeRule | undefined => {
+  if (value === undefined) {
+    return undefined;
   }
-
-  if (!next) {
-    const fajrMinutes = minutesByPrayer.Fajr;
-    if (fajrMinutes !== null) {
-      next = 'Fajr';
-      nextMinutes = fajrMinutes + 24 * 60;
-    }
+  const match = HIGH_LATITUDE_RULES.find((rule) => rule === value);
+  if (!match) {
+    throw new Error(`High-latitude rule must be one of: ${HIGH_LATITUDE_RULES.join(', ')}`);
   }
+  return match;
+};
 
-  let current: PrayerName | undefined;
-  for (const prayer of PRAYER_ORDER) {
-    const minutes = minutesByPrayer[prayer];
-    if (minutes === null) {
-      continue;
-    }
+const HIGH_LATITUDE_RULE_LABELS: Readonly<Record<HighLatitudeRule, string>> = {
+  'angle-based': 'angle-based',
+  'middle-of-night': 'middle-of-the-night',
+  'one-seventh': 'one-seventh',
+};
 
-    if (nowMinutes >= minutes) {
-      current = prayer;
-    }
-  }
+const formatHighLatitudeNotice = (notice: HighLatitudeNotice, totalDays: number): string => {
+  const prayers = notice.prayers.join('/');
+  const days = totalDays > 1 ? ` on ${notice.days} of ${totalDays} days` : '';
+  return `⚠ High latitude: ${prayers} estimated with the ${HIGH_LATITUDE_RULE_LABELS[notice.rule]} rule${days}`;
+};
 
-  const nextTime = next ? extractTime(timings[next]) : undefined;
-  const minutesAway = nextMinutes !== undefined ? nextMinutes - nowMinutes : undefined;
+const formatTimetableNotice = (
+  timetable: Timetable,
+  items: ReadonlyArray<PrayerData>,
+): string | undefined => {
+  const days = items.filter(
+    (item) => timetable.days[toDateKeyFromGregorian(item.date.gregorian.date)],
+  ).length;
+  if (days === 0) {
+    return undefined;
+  }
+  const coverage = items.length > 1 ? ` on ${days} of ${items.length} days` : '';
+  return `🕌 Times from the imported timetable (${timetable.source})${coverage}`;
+};
 
-  return {
-    current,
-    next,
-    nextTime,
-    minutesAway,
-  };
+const getTodayDateKey = (): string => {
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
 };
 
-const formatLocationLabel = (location: LocationConfig): string => {
-  if (location.type === 'address') {
-    return location.address;
+const toDateKeyFromGregorian = (dateValue: string): string => {
+  const match = /^(\d{2})-(\d{2})-(\d{4})$/.exec(dateValue);
+  if (!match) {
+    return dateValue;
   }
-
-  return `${location.city}, ${location.country}`;
+  const [, day, month, year] = match;
+  return `${year}-${month}-${day}`;
 };
 
 const centerAnsi = (value: string, width: number): string => {
@@ -404,7 +474,13 @@ const runInteractiveMenu = async (): Promise<void> => {
   }
 };
 
-const renderDailySchedule = (data: PrayerData, location: LocationConfig): void => {
+const renderDailySchedule = (
+  data: PrayerData,
+  location: LocationConfig,
+  notice?: HighLatitudeNotice,
+  timetable?: Timetable,
+  customMethod?: CustomMethod,
+): void => {
   const config = getConfig();
   const timezoneOverride = config.timezone;
   const timezone = timezoneOverride ?? data.meta.timezone;
@@ -414,7 +490,7 @@ const renderDailySchedule = (data: PrayerData, location: LocationConfig): void =
       : data.meta.timezone;
 
   const hijri = `${data.date.hijri.date} ${data.date.hijri.month.en} ${data.date.hijri.year}`;
-  const locationLabel = formatLocationLabel(location);
+  const locationLabel = describeLocation(location);
   const now = getNowInTimezone(timezone);
   const prayerStatus = computePrayerStatus(data.timings, now.minutes);
   const currentLabel = prayerStatus.current
@@ -460,6 +536,9 @@ const renderDailySchedule = (data: PrayerData, location: LocationConfig): void =
   renderLine();
   renderLine(`${pc.dim('📍 Location:')} ${locationLabel}`);
   renderLine(`${pc.dim('🕒 Timezone:')} ${timezoneLabel}`);
+  if (customMethod) {
+    renderLine(`${pc.dim('🧭 Method:')} Custom (${describeCustomMethod(customMethod)})`);
+  }
   renderLine(`${pc.dim('🌙 Roza day:')} ${data.date.hijri.day}`);
   renderLine();
 
@@ -481,6 +560,20 @@ const renderDailySchedule = (data: PrayerData, location: LocationConfig): void =
   renderLine(`${pc.dim('• Now:')} ${nowAccent(now.label)}`);
   renderLine(`${pc.dim('• Current:')} ${accent(currentLabel)}`);
   renderLine(`${pc.dim('• Upcoming:')} ${accent(nextLabel)}`);
+  const iqamah = timetable?.days[toDateKeyFromGregorian(data.date.gregorian.date)]?.iqamah;
+  if (iqamah) {
+    const iqamahLabel = PRAYER_ORDER.filter((prayer) => iqamah[prayer])
+      .map((prayer) => `${prayer} ${iqamah[prayer]}`)
+      .join('  ');
+    renderLine(`${pc.dim('• Iqamah:')} ${iqamahLabel}`);
+  }
+  if (notice) {
+    renderLine(pc.yellow(formatHighLatitudeNotice(notice, 1)));
+  }
+  const timetableNotice = timetable && formatTimetableNotice(timetable, [data]);
+  if (timetableNotice) {
+    renderLine(pc.dim(timetableNotice));
+  }
 
   const quote = pickQuote();
   if (quote) {
@@ -490,7 +583,11 @@ const renderDailySchedule = (data: PrayerData, location: LocationConfig): void =
   }
 };
 
-const renderMonthlySchedule = (items: ReadonlyArray<PrayerData>): void => {
+const renderMonthlySchedule = (
+  items: ReadonlyArray<PrayerData>,
+  notice?: HighLatitudeNotice,
+  timetable?: Timetable,
+): void => {
   if (items.length === 0) {
     console.log(pc.yellow('No schedule data found for this month.'));
     return;
@@ -508,11 +605,22 @@ const renderMonthlySchedule = (items: ReadonlyArray<PrayerData>): void => {
       `${pc.cyan(label)}  Fajr ${t.Fajr}  Dhuhr ${t.Dhuhr}  Asr ${t.Asr}  Maghrib ${t.Maghrib}  Isha ${t.Isha}`,
     );
   }
+
+  if (notice) {
+    console.log('');
+    console.log(pc.yellow(formatHighLatitudeNotice(notice, items.length)));
+  }
+  const timetableNotice = timetable && formatTimetableNotice(timetable, items);
+  if (timetableNotice) {
+    console.log(pc.dim(timetableNotice));
+  }
 };
 
 const renderRamadanSchedule = (
   items: ReadonlyArray<PrayerData>,
   hijriYear: number,
+  notice?: HighLatitudeNotice,
+  timetable?: Timetable,
 ): void => {
   if (items.length === 0) {
     console.log(pc.yellow('No schedule data found for Ramadan.'));
@@ -546,12 +654,18 @@ const renderRamadanSchedule = (
   );
   const gap = '  ';
   const headerLine = headers
-    .map((header, idx) => (idx < 3 ? padAnsi(pc.dim(header), colWidths[idx]) : centerAnsi(pc.dim(header), colWidths[idx])))
+    .map((header, idx) =>
+      idx < 3
+        ? padAnsi(pc.dim(header), colWidths[idx])
+        : centerAnsi(pc.dim(header), colWidths[idx]),
+    )
     .join(gap);
   const tableWidth = stripAnsi(headerLine).length;
 
   renderScheduleHeader();
-  renderLine(padBetween(`🌙 Ramadan ${hijriYear}`, `🕒 Timezone: ${items[0].meta.timezone}`, tableWidth));
+  renderLine(
+    padBetween(`🌙 Ramadan ${hijriYear}`, `🕒 Timezone: ${items[0].meta.timezone}`, tableWidth),
+  );
   renderLine();
   renderLine();
 
@@ -567,9 +681,186 @@ const renderRamadanSchedule = (
       .join(gap);
     renderLine(line);
   }
+
+  if (notice) {
+    renderLine();
+    renderLine(pc.yellow(formatHighLatitudeNotice(notice, items.length)));
+  }
+  const timetableNotice = timetable && formatTimetableNotice(timetable, items);
+  if (timetableNotice) {
+    renderLine(pc.dim(timetableNotice));
+  }
+};
+
+const formatHijriPlain = (hijri: HijriJson): string =>
+  `${hijri.day} ${hijri.monthName} ${hijri.year}`;
+
+const toScheduleDayJson = (item: PrayerData, timetable?: Timetable): ScheduleDayJson => {
+  const date = toDateKeyFromGregorian(item.date.gregorian.date);
+  return {
+    date,
+    hijri: toHijriJson(item.date.hijri),
+    timings: toTimingsJson(item.timings),
+    timetable: Boolean(timetable?.days[date]),
+  };
+};
+
+const printPlainDays = (days: ReadonlyArray<ScheduleDayJson>): void => {
+  printPlain([
+    ['date', 'hijri', ...SCHEDULE_TIMES],
+    ...days.map((day) => [
+      day.date,
+      formatHijriPlain(day.hijri),
+      ...SCHEDULE_TIMES.map((key) => day.timings[key]),
+    ]),
+  ]);
+};
+
+const outputDailySchedule = (
+  format: OutputFormat,
+  data: PrayerData,
+  location: LocationConfig,
+  notice?: HighLatitudeNotice,
+  timetable?: Timetable,
+  customMethod?: CustomMethod,
+): void => {
+  if (format === 'table') {
+    renderDailySchedule(data, location, notice, timetable, customMethod);
+    return;
+  }
+
+  const timezone = getConfig().timezone ?? data.meta.timezone;
+  const status = computePrayerStatus(data.timings, getNowInTimezone(timezone).minutes);
+  const minutesAway = status.minutesAway !== undefined ? Math.round(status.minutesAway) : undefined;
+  const day = toScheduleDayJson(data, timetable);
+  if (format === 'plain') {
+    printPlain([
+      ['date', day.date],
+      ['hijri', formatHijriPlain(day.hijri)],
+      ...SCHEDULE_TIMES.map((key) => [key, day.timings[key]]),
+      ['current', status.current ?? ''],
+      ['next', status.next ?? '', status.nextTime ?? '', minutesAway ?? ''],
+    ]);
+    return;
+  }
+
+  const json: DailyScheduleJson = {
+    kind: 'daily',
+    ...day,
+    location: describeLocation(location),
+    timezone,
+    method: data.meta.method,
+    iqamah: timetable?.days[day.date]?.iqamah ?? null,
+    status: {
+      current: status.current ?? null,
+      next: status.next ?? null,
+      nextTime: status.nextTime ?? null,
+      minutesAway: minutesAway ?? null,
+    },
+    highLatitude: notice ?? null,
+  };
+  printJson(json);
+};
+
+const outputMonthlySchedule = (
+  format: OutputFormat,
+  items: ReadonlyArray<PrayerData>,
+  monthKey: string,
+  location: LocationConfig,
+  notice?: HighLatitudeNotice,
+  timetable?: Timetable,
+): void => {
+  if (format === 'table') {
+    renderMonthlySchedule(items, notice, timetable);
+    return;
+  }
+
+  const days = items.map((item) => toScheduleDayJson(item, timetable));
+  if (format === 'plain') {
+    printPlainDays(days);
+    return;
+  }
+
+  const json: MonthlyScheduleJson = {
+    kind: 'month',
+    month: monthKey,
+    location: describeLocation(location),
+    timezone: items[0]?.meta.timezone ?? '',
+    days,
+    highLatitude: notice ?? null,
+  };
+  printJson(json);
+};
+
+const outputRamadanSchedule = (
+  format: OutputFormat,
+  items: ReadonlyArray<PrayerData>,
+  hijriYear: number,
+  location: LocationConfig,
+  notice?: HighLatitudeNotice,
+  timetable?: Timetable,
+): void => {
+  if (format === 'table') {
+    renderRamadanSchedule(items, hijriYear, notice, timetable);
+    return;
+  }
+
+  const days = items.map((item) => toScheduleDayJson(item, timetable));
+  if (format === 'plain') {
+    printPlainDays(days);
+    return;
+  }
+
+  const json: RamadanScheduleJson = {
+    kind: 'ramadan',
+    hijriYear,
+    location: describeLocation(location),
+    timezone: items[0]?.meta.timezone ?? '',
+    days: days.map((day, idx) => ({ day: idx + 1, ...day })),
+    highLatitude: notice ?? null,
+  };
+  printJson(json);
+};
+
+/**
+ * Writes the days as an iCalendar file, or to stdout when the path is "-".
+ */
+const writeScheduleIcs = (
+  file: string,
+  items: ReadonlyArray<PrayerData>,
+  title: string,
+  location: LocationConfig,
+  timezone: string | undefined,
+  alarmMinutes?: number,
+): void => {
+  const { content, events } = buildScheduleIcs(items, {
+    timezone: timezone ?? items[0]?.meta.timezone ?? 'UTC',
+    calendarName: `${title} (${describeLocation(location)})`,
+    alarmMinutes,
+  });
+  if (file === '-') {
+    process.stdout.write(content);
+    return;
+  }
+  writeFileSync(file, content);
+  console.log(pc.green(`Wrote ${events} events to ${file}`));
 };
 
 const resolveLocation = async (options: ScheduleOptions): Promise<LocationConfig> => {
+  if (options.lat !== undefined || options.lon !== undefined) {
+    if (options.lat === undefined || options.lon === undefined) {
+      throw new Error('Both --lat and --lon are required for coordinates');
+    }
+
+    return {
+      type: 'coords',
+      latitude: parseLatitude(options.lat),
+      longitude: parseLongitude(options.lon),
+      elevation: options.elevation !== undefined ? parseElevation(options.elevation) : undefined,
+      label: options.label,
+    };
+  }
+
   if (options.address) {
     return { type: 'address', address: options.address };
   }
@@ -606,6 +897,7 @@ const resolveLocation = async (options: ScheduleOptions): Promise<LocationConfig
       return { type: 'city', city: cityInput, country };
     }
 
+    country ??= findCity(city)?.country;
     if (!country) {
       const countryInput = await text({
         message: 'Country',
@@ -633,6 +925,7 @@ const resolveLocation = async (options: ScheduleOptions): Promise<LocationConfig
     options: [
       { value: 'city', label: 'City + country' },
       { value: 'address', label: 'Full address' },
+      { value: 'coords', label: 'Coordinates' },
     ],
   });
 
@@ -641,6 +934,10 @@ const resolveLocation = async (options: ScheduleOptions): Promise<LocationConfig
     process.exit(0);
   }
 
+  if (locationType === 'coords') {
+    return promptCoordsLocation();
+  }
+
   if (locationType === 'address') {
     const address = await text({
       message: 'Enter your address',
@@ -655,31 +952,12 @@ const resolveLocation = async (options: ScheduleOptions): Promise<LocationConfig
     return { type: 'address', address };
   }
 
-  const city = await text({
-    message: 'City',
-    validate: (value) => (value ? undefined : 'City is required'),
-  });
-
-  if (isCancel(city)) {
-    cancel('Setup cancelled.');
-    process.exit(0);
-  }
-
-  const country = await text({
-    message: 'Country',
-    validate: (value) => (value ? undefined : 'Country is required'),
-  });
-
-  if (isCancel(country)) {
-    cancel('Setup cancelled.');
-    process.exit(0);
-  }
-
-  return { type: 'city', city, country };
+  const { location } = await promptCityLocation();
+  return location;
 };
 
 export const registerScheduleCommand = (program: Command): void => {
-  program
+  const schedule = program
     .command('schedule')
     .description('Show Ramadan and daily prayer schedules')
     .option('-d, --date <date>', 'Date in YYYY-MM-DD format')
@@ -687,13 +965,45 @@ export const registerScheduleCommand = (program: Command): void => {
     .option('--city <city>', 'City for prayer times')
     .option('--country <country>', 'Country for prayer times')
     .option('--address <address>', 'Full address for prayer times')
+    .option('--lat <latitude>', 'Latitude for prayer times (use with --lon)')
+    .option('--lon <longitude>', 'Longitude for prayer times (use with --lat)')
+    .option('--elevation <meters>', 'Elevation in meters for coordinates')
+    .option('--label <label>', 'Display name for coordinates')
     .option('--method <id>', 'Calculation method id')
     .option('--school <id>', 'School id (0 = Shafi, 1 = Hanafi)')
+    .option('--custom-method', 'Edit your custom method (angles and offsets) and switch to it')
     .option('--ramadan', 'Show Ramadan schedule (Hijri month 9)')
     .option('--ramadan-year <year>', 'Hijri year for Ramadan (e.g. 1447)')
+    .option('--hijri-calendar <calendar>', 'Hijri calendar (umm-al-qura or tabular)')
+    .option('--hijri-adjustment <days>', 'Shift Hijri dates by -2..+2 days for local moon sighting')
+    .option('--ramadan-start <date>', 'Save the announced 1 Ramadan date (YYYY-MM-DD) for its year')
+    .option('--clear-ramadan-start <year>', 'Remove the announced start saved for a Hijri year')
+    .option(
+      '--high-latitude <rule>',
+      'High-latitude rule for Fajr/Isha (angle-based, middle-of-night, one-seventh)',
+    )
+    .option('--offline', 'Calculate prayer times locally instead of calling the API')
     .option('--no-save', 'Do not persist location/method')
+    .option('--json', 'Print machine-readable JSON (same as --format json)')
+    .option('--format <format>', 'Output format: table, plain or json')
+    .option('--ics <file>', 'Export --month or --ramadan as an iCalendar file ("-" for stdout)')
+    .option('--alarm <minutes>', 'Add a reminder this many minutes before each --ics event')
     .action(async (options: ScheduleOptions) => {
       try {
+        const format = resolveOutputFormat(options);
+        if (options.ics !== undefined) {
+          if (options.json || options.format) {
+            throw new Error('Use either --ics or --json/--format, not both.');
+          }
+          if (!options.month && !options.ramadan && !options.ramadanYear) {
+            throw new Error('Use --ics with --month or --ramadan.');
+          }
+        }
+        if (options.alarm !== undefined && options.ics === undefined) {
+          throw new Error('Use --alarm only with --ics.');
+        }
+        const alarmMinutes =
+          options.alarm !== undefined ? parseAlarmMinutes(options.alarm) : undefined;
         if (options.ramadan && options.month) {
           throw new Error('Use either --ramadan or --month, not both.');
         }
@@ -704,94 +1014,145 @@ export const registerScheduleCommand = (program: Command): void => {
           throw new Error('Use --ramadan-year only with --ramadan.');
         }
 
+        if (options.customMethod && options.method !== undefined) {
+          throw new Error('Use either --method or --custom-method, not both.');
+        }
+
         const location = await resolveLocation(options);
         const existing = getConfig();
-        const method = parseOptionalNumber(options.method) ?? existing.method;
+        const customMethod = options.customMethod
+          ? await editCustomMethod(existing.customMethod)
+          : existing.customMethod;
+        const method = options.customMethod
+          ? CUSTOM_METHOD_ID
+          : (parseOptionalNumber(options.method) ?? existing.method);
         const school = parseOptionalNumber(options.school) ?? existing.school;
+        const hijriCalendar = parseHijriCalendar(options.hijriCalendar) ?? existing.hijriCalendar;
+        const hijriAdjustment =
+          options.hijriAdjustment !== undefined
+            ? parseHijriAdjustment(options.hijriAdjustment)
+            : existing.hijriAdjustment;
+        const highLatitudeRule =
+          parseHighLatitudeRule(options.highLatitude) ?? existing.highLatitudeRule;
+        const ramadanStarts = resolveRamadanStarts(existing.ramadanStarts, options, hijriCalendar);
+        const effective = {
+          ...existing,
+          hijriCalendar,
+          hijriAdjustment,
+          ramadanStarts,
+          customMethod,
+        };
 
-        const spinner = ora('Fetching schedule...').start();
+        const context = createTimingsContext(location, effective, {
+          method,
+          school,
+          highLatitudeRule,
+          offline: options.offline,
+        });
+
+        const spinner = ora({
+          text: options.offline ? 'Calculating schedule...' : 'Fetching schedule...',
+          isSilent: format !== 'table' || options.ics === '-',
+        }).start();
 
+        let resolvedMeta: PrayerData['meta'] | undefined;
         if (options.ramadan || options.ramadanYear) {
           const hijriYear = options.ramadanYear
             ? parseHijriYear(options.ramadanYear)
-            : Number((await fetchHijriByDate(getTodayDateKey())).hijri.year);
-          const data =
-            location.type === 'city'
-              ? await fetchHijriCalendarByCity({
-                  city: location.city,
-                  country: location.country,
-                  year: hijriYear,
-                  month: 9,
-                  method,
-                  school,
-                })
-              : await fetchHijriCalendarByAddress({
-                  address: location.address,
-                  year: hijriYear,
-                  month: 9,
-                  method,
-                  school,
-                });
+            : getHijriYear(getTodayDateKey(), toHijriSettings(effective));
+          const data = await resolveHijriMonthCalendar(context, hijriYear, 9);
 
           spinner.stop();
-          renderRamadanSchedule(data, hijriYear);
+          resolvedMeta = data[0]?.meta;
+          if (options.ics !== undefined) {
+            writeScheduleIcs(
+              options.ics,
+              data,
+              `Ramadan ${hijriYear}`,
+              location,
+              context.timezone,
+              alarmMinutes,
+            );
+          } else {
+            outputRamadanSchedule(
+              format,
+              data,
+              hijriYear,
+              location,
+              detectHighLatitudeAdjustment(context, data),
+              context.timetable,
+            );
+          }
         } else if (options.month) {
           const { year, month } = parseMonthInput(options.month);
-          const data =
-            location.type === 'city'
-              ? await fetchCalendarByCity({
-                  city: location.city,
-                  country: location.country,
-                  year,
-                  month,
-                  method,
-                  school,
-                })
-              : await fetchCalendarByAddress({
-                  address: location.address,
-                  year,
-                  month,
-                  method,
-                  school,
-                });
+          const data = await resolveMonthlyCalendar(context, year, month);
 
           spinner.stop();
-          renderMonthlySchedule(data);
+          resolvedMeta = data[0]?.meta;
+          if (options.ics !== undefined) {
+            writeScheduleIcs(
+              options.ics,
+              data,
+              `Prayer times ${options.month}`,
+              location,
+              context.timezone,
+              alarmMinutes,
+            );
+          } else {
+            outputMonthlySchedule(
+              format,
+              data,
+              options.month,
+              location,
+              detectHighLatitudeAdjustment(context, data),
+              context.timetable,
+            );
+          }
         } else {
           const date = options.date ? parseDateInput(options.date) : undefined;
-          const data =
-            location.type === 'city'
-              ? await fetchTimingsByCity({
-                  city: location.city,
-                  country: location.country,
-                  method,
-                  school,
-                  date,
-                })
-              : await fetchTimingsByAddress({
-                  address: location.address,
-                  method,
-                  school,
-                  date,
-                });
+          const data = await resolveDailyTimings(context, date);
 
           spinner.stop();
-          renderDailySchedule(data, location);
+          resolvedMeta = data.meta;
+          outputDailySchedule(
+            format,
+            data,
+            location,
+            detectHighLatitudeAdjustment(context, [data]),
+            context.timetable,
+            method === CUSTOM_METHOD_ID ? customMethod : undefined,
+          );
         }
 
         if (options.save !== false) {
           setConfig({
             location,
             method,
+            customMethod,
             school,
+            hijriCalendar,
+            hijriAdjustment,
+            ramadanStarts,
+            highLatitudeRule,
+            coordinates: resolvedMeta
+              ? {
+                  latitude: resolvedMeta.latitude,
+                  longitude: resolvedMeta.longitude,
+                  timezone: resolvedMeta.timezone,
+                }
+              : undefined,
           });
         }
 
-        await runInteractiveMenu();
+        if (format === 'table' && options.ics === undefined) {
+          await runInteractiveMenu();
+        }
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         console.error(pc.red(message));
         process.exitCode = 1;
       }
     });
+
+  registerTimerCommands(schedule);
 };
@@ -0,0 +1,131 @@
+import type { Command } from 'commander';
+import pc from 'picocolors';
+
+import { getConfig } from '../lib/store.js';
+import {
+  buildCrontabBlock,
+  buildSystemdUnits,
+  collectTimerEntries,
+  DEFAULT_TIMER_DAYS,
+  installCronTimers,
+  installSystemdTimers,
+  uninstallCronTimers,
+  uninstallSystemdTimers,
+  type TimerBackend,
+  type TimerInstallResult,
+} from '../lib/timers.js';
+
+type TimerOptions = {
+  systemd?: boolean;
+  cron?: boolean;
+  days?: string;
+  dryRun?: boolean;
+};
+
+const resolveBackend = (options: TimerOptions): TimerBackend => {
+  if (options.systemd && options.cron) {
+    throw new Error('Use either --systemd or --cron, not both.');
+  }
+  if (options.systemd) return 'systemd';
+  if (options.cron) return 'cron';
+  throw new Error('Choose where to install: --systemd or --cron.');
+};
+
+const parseTimerDays = (value: string): number => {
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1 || days > 31) {
+    throw new Error('Days must be an integer between 1 and 31');
+  }
+  return days;
+};
+
+const reportWarning = (result: TimerInstallResult): void => {
+  if (result.warning) {
+    console.error(pc.yellow(result.warning));
+    process.exitCode = 1;
+  }
+};
+
+/**
+ * Adds `schedule install-timers` and `schedule uninstall-timers`, an
+ * alternative to `notify start` for people who would rather not run a daemon.
+ */
+export const registerTimerCommands = (schedule: Command): void => {
+  schedule
+    .command('install-timers')
+    .description('Install systemd user timers or a crontab block for prayer reminders')
+    .option('--systemd', 'Write systemd user timer units')
+    .option('--cron', 'Write a block into your crontab')
+    .option('--days <days>', `Days of prayer times to schedule (default ${DEFAULT_TIMER_DAYS})`)
+    .option('--dry-run', 'Print what would be installed without changing anything')
+    .action(async (options: TimerOptions) => {
+      try {
+        const backend = resolveBackend(options);
+        const days = options.days ? parseTimerDays(options.days) : DEFAULT_TIMER_DAYS;
+        const entries = await collectTimerEntries(getConfig(), days);
+
+        if (backend === 'systemd') {
+          const units = buildSystemdUnits(entries, days);
+          if (options.dryRun) {
+            for (const [name, content] of units) {
+              console.log(pc.dim(`# ${name}`));
+              console.log(content);
+            }
+            return;
+          }
+          const result = installSystemdTimers(units);
+          console.log(
+            pc.green(`Installed ${result.entries} reminder timers covering ${days} days.`),
+          );
+          console.log(pc.dim(result.target));
+          reportWarning(result);
+          return;
+        }
+
+        const block = buildCrontabBlock(entries, days);
+        if (options.dryRun) {
+          console.log(block);
+          return;
+        }
+        const result = installCronTimers(block, entries.length);
+        console.log(pc.green(`Installed ${result.entries} cron reminders covering ${days} days.`));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(pc.red(message));
+        process.exitCode = 1;
+      }
+    });
+
+  schedule
+    .command('uninstall-timers')
+    .description('Remove the reminder timers installed by install-timers')
+    .option('--systemd', 'Only remove systemd user timers')
+    .option('--cron', 'Only remove the crontab block')
+    .action((options: TimerOptions) => {
+      const both = !options.systemd && !options.cron;
+      try {
+        if (options.systemd || both) {
+          const result = uninstallSystemdTimers();
+          console.log(
+            result.entries > 0
+              ? `Removed ${result.entries} systemd units from ${result.target}.`
+              : 'No systemd timers installed.',
+          );
+          reportWarning(result);
+        }
+        if (options.cron || both) {
+          // Only an explicit --cron needs crontab to exist.
+          const result = uninstallCronTimers(Boolean(options.cron));
+          console.log(
+            result.entries > 0
+              ? 'Removed the roza block from crontab.'
+              : 'No cron timers installed.',
+          );
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(pc.red(message));
+        process.exitCode = 1;
+      }
+    });
+};
@@ -0,0 +1,90 @@
+import type { Command } from 'commander';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import pc from 'picocolors';
+
+import { getConfig } from '../lib/store.js';
+import {
+  clearTimetable,
+  getTimetablePath,
+  parseTimetableCsv,
+  readTimetable,
+  saveTimetable,
+} from '../lib/timetable.js';
+import { describeLocation } from '../lib/timings.js';
+
+type ImportOptions = {
+  replace?: boolean;
+};
+
+export const registerTimetableCommand = (program: Command): void => {
+  const timetable = program
+    .command('timetable')
+    .description('Use a mosque timetable instead of calculated prayer times');
+
+  timetable
+    .command('import')
+    .description('Import per-day start (and optional iqamah) times from a CSV file')
+    .argument('<file>', 'CSV with a header row: date,fajr,sunrise,dhuhr,asr,maghrib,isha,...')
+    .option('--replace', 'Drop previously imported days instead of merging')
+    .action(async (file: string, options: ImportOptions) => {
+      try {
+        const raw = await readFile(path.resolve(process.cwd(), file), 'utf8');
+        const days = parseTimetableCsv(raw);
+        const location = getConfig().location;
+        const saved = saveTimetable(days, {
+          source: path.basename(file),
+          location,
+          replace: options.replace,
+        });
+
+        const dateKeys = Object.keys(days).sort();
+        const withIqamah = Object.values(days).filter((day) => day.iqamah).length;
+        console.log(
+          `Imported ${dateKeys.length} days (${dateKeys[0]} → ${dateKeys[dateKeys.length - 1]}).`,
+        );
+        if (withIqamah > 0) {
+          console.log(pc.dim(`Iqamah times on ${withIqamah} days.`));
+        }
+        if (location) {
+          console.log(pc.dim(`Applies to ${describeLocation(location)}.`));
+        }
+        console.log(
+          pc.dim(`${Object.keys(saved.days).length} days stored in ${getTimetablePath()}`),
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to import timetable.';
+        console.error(pc.red(message));
+        process.exitCode = 1;
+      }
+    });
+
+  timetable
+    .command('show')
+    .description('Show which dates the imported timetable covers')
+    .action(() => {
+      const current = readTimetable();
+      const dateKeys = Object.keys(current?.days ?? {}).sort();
+      if (!current || dateKeys.length === 0) {
+        console.log(pc.dim('No timetable imported.'));
+        return;
+      }
+
+      console.log(pc.bold(`Timetable from ${current.source}`));
+      console.log(
+        `Dates: ${dateKeys[0]} → ${dateKeys[dateKeys.length - 1]} (${dateKeys.length} days)`,
+      );
+      console.log(
+        `Location: ${current.location ? describeLocation(current.location) : 'any location'}`,
+      );
+      console.log(pc.dim(`Imported ${current.importedAt.slice(0, 10)}`));
+    });
+
+  timetable
+    .command('clear')
+    .description('Remove the imported timetable')
+    .action(() => {
+      const count = clearTimetable();
+      console.log(`Cleared ${count} timetable days.`);
+    });
+};
@@ -0,0 +1,44 @@
+import type { Command } from 'commander';
+import pc from 'picocolors';
+
+import { findUndoableEntries } from '../lib/audit.js';
+import { revertAttendanceChanges } from '../lib/store.js';
+import { describeChange } from '../utils/audit-utils.js';
+
+const parseCount = (value: string): number => {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error('Count must be a positive integer');
+  }
+  return count;
+};
+
+export const registerUndoCommand = (program: Command): void => {
+  program
+    .command('undo [count]')
+    .description('Revert the last attendance changes (default 1)')
+    .action((countInput?: string) => {
+      try {
+        const count = countInput ? parseCount(countInput) : 1;
+        const entries = findUndoableEntries(count);
+        if (entries.length === 0) {
+          console.log(pc.dim('Nothing to undo.'));
+          return;
+        }
+
+        revertAttendanceChanges(entries);
+        entries.forEach((entry) => {
+          console.log(
+            `Reverted #${entry.id} ${entry.date} (${entry.source}): ${describeChange(entry.after, entry.before)}`,
+          );
+        });
+        if (entries.length < count) {
+          console.log(pc.dim(`Only ${entries.length} changes could be undone.`));
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(pc.red(message));
+        process.exitCode = 1;
+      }
+    });
+};
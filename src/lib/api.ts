@@ -1,7 +1,30 @@
 import { z } from 'zod';
 
+import { readCache, writeCache } from './cache.js';
+
 export const API_BASE = 'https://api.aladhan.com/v1';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Requests that take longer count as the API being unreachable.
+const FETCH_TIMEOUT_MS = 15_000;
+
+// Endpoints missing from this table (e.g. nextPrayer) are never cached.
+const CACHE_TTL_MS: Readonly<Record<string, number>> = {
+  timings: 7 * DAY_MS,
+  timingsByCity: 7 * DAY_MS,
+  timingsByAddress: 7 * DAY_MS,
+  calendar: 30 * DAY_MS,
+  calendarByCity: 30 * DAY_MS,
+  calendarByAddress: 30 * DAY_MS,
+  hijriCalendar: 30 * DAY_MS,
+  hijriCalendarByCity: 30 * DAY_MS,
+  hijriCalendarByAddress: 30 * DAY_MS,
+  gToH: 365 * DAY_MS,
+  methods: 30 * DAY_MS,
+  qibla: 365 * DAY_MS,
+};
+
 export type MethodId = number & { readonly __brand: 'MethodId' };
 
 export interface PrayerTimings {
@@ -94,6 +117,17 @@ export interface CalculationMethod {
 
 export type MethodsResponse = Readonly<Record<string, CalculationMethod>>;
 
+/**
+ * Extra calculation parameters, already in Aladhan's query format
+ * (e.g. methodSettings "18.5,null,90 min", tune "0,2,0,2,2,2,0,2,0").
+ */
+export interface MethodTuning {
+  readonly methodSettings?: string;
+  readonly tune?: string;
+  readonly midnightMode?: number;
+  readonly latitudeAdjustmentMethod?: number;
+}
+
 export interface QiblaData {
   readonly latitude: number;
   readonly longitude: number;
@@ -213,6 +247,24 @@ const formatDate = (date: Date): string => {
   return `${day}-${month}-${year}`;
 };
 
+const applyMethodTuning = (params: URLSearchParams, tuning?: MethodTuning): void => {
+  if (tuning?.methodSettings) {
+    params.set('methodSettings', tuning.methodSettings);
+  }
+
+  if (tuning?.tune) {
+    params.set('tune', tuning.tune);
+  }
+
+  if (tuning?.midnightMode !== undefined) {
+    params.set('midnightMode', String(tuning.midnightMode));
+  }
+
+  if (tuning?.latitudeAdjustmentMethod !== undefined) {
+    params.set('latitudeAdjustmentMethod', String(tuning.latitudeAdjustmentMethod));
+  }
+};
+
 const parseApiResponse = <T extends z.ZodTypeAny>(
   payload: unknown,
   dataSchema: T,
@@ -243,13 +295,72 @@ const parseApiResponse = <T extends z.ZodTypeAny>(
   return parsedData.data;
 };
 
+export class ApiUnreachableError extends Error {
+  constructor(url: string, cause?: unknown) {
+    super(`Unable to reach the prayer times API (${new URL(url).host}).`, { cause });
+    this.name = 'ApiUnreachableError';
+  }
+}
+
+const resolveCacheTtl = (url: string): number | undefined => {
+  const endpoint = new URL(url).pathname.replace(/^\/v1\//, '').split('/')[0];
+  return CACHE_TTL_MS[endpoint];
+};
+
+const toCacheKey = (url: string): string => url.slice(API_BASE.length);
+
 const fetchAndParse = async <T extends z.ZodTypeAny>(
   url: string,
   dataSchema: T,
 ): Promise<z.infer<T>> => {
-  const response = await fetch(url);
-  const json = (await response.json()) as unknown;
-  return parseApiResponse(json, dataSchema);
+  const ttl = resolveCacheTtl(url);
+  const cacheKey = toCacheKey(url);
+
+  if (ttl !== undefined) {
+    const cached = readCache(cacheKey);
+    if (cached !== undefined) {
+      try {
+        return parseApiResponse(cached, dataSchema);
+      } catch {
+        // Ignore unusable cache entries and refetch below.
+      }
+    }
+  }
+
+  // An expired entry still beats failing when the API is down or misbehaving.
+  const useStale = (error: unknown): z.infer<T> => {
+    const stale = ttl !== undefined ? readCache(cacheKey, { allowStale: true }) : undefined;
+    if (stale !== undefined) {
+      try {
+        return parseApiResponse(stale, dataSchema);
+      } catch {
+        // Fall through to the original error.
+      }
+    }
+    throw error;
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  } catch (error) {
+    return useStale(new ApiUnreachableError(url, error));
+  }
+
+  let json: unknown;
+  let parsed: z.infer<T>;
+  try {
+    json = (await response.json()) as unknown;
+    parsed = parseApiResponse(json, dataSchema);
+  } catch (error) {
+    return useStale(error);
+  }
+
+  if (ttl !== undefined) {
+    writeCache(cacheKey, json, ttl);
+  }
+
+  return parsed;
 };
 
 export interface FetchByCityOptions {
@@ -257,6 +368,7 @@ export interface FetchByCityOptions {
   readonly country: string;
   readonly method?: number;
   readonly school?: number;
+  readonly tuning?: MethodTuning;
   readonly date?: Date;
 }
 
@@ -275,6 +387,8 @@ export const fetchTimingsByCity = async (opts: FetchByCityOptions): Promise<Pray
     params.set('school', String(opts.school));
   }
 
+  applyMethodTuning(params, opts.tuning);
+
   return fetchAndParse(`${API_BASE}/timingsByCity/${date}?${params}`, PrayerDataSchema);
 };
 
@@ -282,6 +396,7 @@ export interface FetchByAddressOptions {
   readonly address: string;
   readonly method?: number;
   readonly school?: number;
+  readonly tuning?: MethodTuning;
   readonly date?: Date;
 }
 
@@ -301,6 +416,8 @@ export const fetchTimingsByAddress = async (
     params.set('school', String(opts.school));
   }
 
+  applyMethodTuning(params, opts.tuning);
+
   return fetchAndParse(`${API_BASE}/timingsByAddress/${date}?${params}`, PrayerDataSchema);
 };
 
@@ -309,6 +426,7 @@ export interface FetchByCoordsOptions {
   readonly longitude: number;
   readonly method?: number;
   readonly school?: number;
+  readonly tuning?: MethodTuning;
   readonly timezone?: string;
   readonly date?: Date;
 }
@@ -330,6 +448,8 @@ export const fetchTimingsByCoords = async (
     params.set('school', String(opts.school));
   }
 
+  applyMethodTuning(params, opts.tuning);
+
   if (opts.timezone) {
     params.set('timezonestring', opts.timezone);
   }
@@ -342,6 +462,7 @@ export interface FetchNextPrayerOptions {
   readonly longitude: number;
   readonly method?: number;
   readonly school?: number;
+  readonly tuning?: MethodTuning;
   readonly timezone?: string;
 }
 
@@ -360,6 +481,8 @@ export const fetchNextPrayer = async (opts: FetchNextPrayerOptions): Promise<Nex
     params.set('school', String(opts.school));
   }
 
+  applyMethodTuning(params, opts.tuning);
+
   if (opts.timezone) {
     params.set('timezonestring', opts.timezone);
   }
@@ -374,6 +497,7 @@ export interface FetchCalendarByCityOptions {
   readonly month?: number;
   readonly method?: number;
   readonly school?: number;
+  readonly tuning?: MethodTuning;
 }
 
 export const fetchCalendarByCity = async (
@@ -392,6 +516,8 @@ export const fetchCalendarByCity = async (
     params.set('school', String(opts.school));
   }
 
+  applyMethodTuning(params, opts.tuning);
+
   const path = opts.month ? `${opts.year}/${opts.month}` : String(opts.year);
   return fetchAndParse(`${API_BASE}/calendarByCity/${path}?${params}`, z.array(PrayerDataSchema));
 };
@@ -402,6 +528,7 @@ export interface FetchCalendarByAddressOptions {
   readonly month?: number;
   readonly method?: number;
   readonly school?: number;
+  readonly tuning?: MethodTuning;
 }
 
 export const fetchCalendarByAddress = async (
@@ -419,6 +546,8 @@ export const fetchCalendarByAddress = async (
     params.set('school', String(opts.school));
   }
 
+  applyMethodTuning(params, opts.tuning);
+
   const path = opts.month ? `${opts.year}/${opts.month}` : String(opts.year);
   return fetchAndParse(
     `${API_BASE}/calendarByAddress/${path}?${params}`,
@@ -426,12 +555,89 @@ export const fetchCalendarByAddress = async (
   );
 };
 
+export interface FetchCalendarByCoordsOptions {
+  readonly latitude: number;
+  readonly longitude: number;
+  readonly year: number;
+  readonly month?: number;
+  readonly method?: number;
+  readonly school?: number;
+  readonly tuning?: MethodTuning;
+  readonly timezone?: string;
+}
+
+export const fetchCalendarByCoords = async (
+  opts: FetchCalendarByCoordsOptions,
+): Promise<ReadonlyArray<PrayerData>> => {
+  const params = new URLSearchParams({
+    latitude: String(opts.latitude),
+    longitude: String(opts.longitude),
+  });
+
+  if (opts.method !== undefined) {
+    params.set('method', String(opts.method));
+  }
+
+  if (opts.school !== undefined) {
+    params.set('school', String(opts.school));
+  }
+
+  applyMethodTuning(params, opts.tuning);
+
+  if (opts.timezone) {
+    params.set('timezonestring', opts.timezone);
+  }
+
+  const path = opts.month ? `${opts.year}/${opts.month}` : String(opts.year);
+  return fetchAndParse(`${API_BASE}/calendar/${path}?${params}`, z.array(PrayerDataSchema));
+};
+
+export interface FetchHijriCalendarByCoordsOptions {
+  readonly latitude: number;
+  readonly longitude: number;
+  readonly year: number;
+  readonly month: number;
+  readonly method?: number;
+  readonly school?: number;
+  readonly tuning?: MethodTuning;
+  readonly timezone?: string;
+}
+
+export const fetchHijriCalendarByCoords = async (
+  opts: FetchHijriCalendarByCoordsOptions,
+): Promise<ReadonlyArray<PrayerData>> => {
+  const params = new URLSearchParams({
+    latitude: String(opts.latitude),
+    longitude: String(opts.longitude),
+  });
+
+  if (opts.method !== undefined) {
+    params.set('method', String(opts.method));
+  }
+
+  if (opts.school !== undefined) {
+    params.set('school', String(opts.school));
+  }
+
+  applyMethodTuning(params, opts.tuning);
+
+  if (opts.timezone) {
+    params.set('timezonestring', opts.timezone);
+  }
+
+  return fetchAndParse(
+    `${API_BASE}/hijriCalendar/${opts.year}/${opts.month}?${params}`,
+    z.array(PrayerDataSchema),
+  );
+};
+
 export interface FetchHijriCalendarByAddressOptions {
   readonly address: string;
   readonly year: number;
   readonly month: number;
   readonly method?: number;
   readonly school?: number;
+  readonly tuning?: MethodTuning;
 }
 
 export const fetchHijriCalendarByAddress = async (
@@ -449,6 +655,8 @@ export const fetchHijriCalendarByAddress = async (
     params.set('school', String(opts.school));
   }
 
+  applyMethodTuning(params, opts.tuning);
+
   return fetchAndParse(
     `${API_BASE}/hijriCalendarByAddress/${opts.year}/${opts.month}?${params}`,
     z.array(PrayerDataSchema),
@@ -462,6 +670,7 @@ export interface FetchHijriCalendarByCityOptions {
   readonly month: number;
   readonly method?: number;
   readonly school?: number;
+  readonly tuning?: MethodTuning;
 }
 
 export const fetchHijriCalendarByCity = async (
@@ -480,6 +689,8 @@ export const fetchHijriCalendarByCity = async (
     params.set('school', String(opts.school));
   }
 
+  applyMethodTuning(params, opts.tuning);
+
   return fetchAndParse(
     `${API_BASE}/hijriCalendarByCity/${opts.year}/${opts.month}?${params}`,
     z.array(PrayerDataSchema),
@@ -0,0 +1,87 @@
+import Conf from 'conf';
+import { z } from 'zod';
+
+import type { DayAttendance } from './store.js';
+
+// Snapshots are only shape-checked here; the store validates them again
+// before an undo writes one back.
+const SnapshotSchema = z.looseObject({ date: z.string(), prayers: z.looseObject({}) }).nullable();
+
+const AuditEntrySchema = z.object({
+  id: z.number().int().positive(),
+  at: z.string(),
+  date: z.string(),
+  source: z.string(),
+  before: SnapshotSchema,
+  after: SnapshotSchema,
+  // Set on entries written by `undo`: the id of the entry they reverted.
+  revertOf: z.number().int().positive().optional(),
+});
+
+export type AuditEntry = Omit<z.infer<typeof AuditEntrySchema>, 'before' | 'after'> & {
+  before: DayAttendance | null;
+  after: DayAttendance | null;
+};
+
+export type AttendanceChange = {
+  date: string;
+  before: DayAttendance | null;
+  after: DayAttendance | null;
+  revertOf?: number;
+};
+
+type AuditState = {
+  entries?: unknown[];
+};
+
+const store = new Conf<AuditState>({
+  projectName: 'roza-cli',
+  configName: 'audit',
+  accessPropertiesByDotNotation: false,
+});
+
+/**
+ * Returns the change log oldest first, skipping entries that fail to parse.
+ */
+export const readAuditLog = (): AuditEntry[] =>
+  (store.get('entries') ?? []).flatMap((raw) => {
+    const parsed = AuditEntrySchema.safeParse(raw);
+    return parsed.success ? [parsed.data as AuditEntry] : [];
+  });
+
+/**
+ * Appends changes to the log. Entries are never edited or removed; `undo`
+ * records its reverts as new entries.
+ */
+export const appendAuditEntries = (
+  changes: ReadonlyArray<AttendanceChange>,
+  source: string,
+): void => {
+  if (changes.length === 0) {
+    return;
+  }
+  const entries = store.get('entries') ?? [];
+  const last = readAuditLog().at(-1)?.id ?? 0;
+  const at = new Date().toISOString();
+  const next = changes.map((change, idx) => ({
+    id: last + idx + 1,
+    at,
+    source,
+    ...change,
+  }));
+  store.set('entries', [...entries, ...next]);
+};
+
+/**
+ * Picks the newest `count` changes that have not been undone yet.
+ */
+export const findUndoableEntries = (count: number): AuditEntry[] => {
+  const entries = readAuditLog();
+  const reverted = new Set(entries.map((entry) => entry.revertOf).filter(Boolean));
+  return entries
+    .filter((entry) => entry.revertOf === undefined && !reverted.has(entry.id))
+    .reverse()
+    .slice(0, count);
+};
+
+export const getAuditPath = (): string => store.path;
@@ -0,0 +1,61 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { listBackups, pruneBackups, writeBackup } from './backup.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), 'roza-backups-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const seed = (names: ReadonlyArray<string>): void => {
+  names.forEach((name) => writeFileSync(path.join(dir, `${name}.json`), '{}\n'));
+};
+
+describe('pruneBackups', () => {
+  it('keeps the newest snapshots of each reason', () => {
+    seed([
+      '20260101-090000-reset',
+      '20260102-090000-daily',
+      '20260103-090000-daily',
+      '20260104-090000-daily',
+      '20260105-090000-import',
+    ]);
+
+    const removed = pruneBackups(dir, 2);
+
+    expect(removed.map((backup) => backup.id)).toEqual(['20260102-090000-daily']);
+    expect(listBackups(dir).map((backup) => backup.id)).toEqual([
+      '20260105-090000-import',
+      '20260104-090000-daily',
+      '20260103-090000-daily',
+      '20260101-090000-reset',
+    ]);
+  });
+
+  it('leaves files outside the naming scheme alone', () => {
+    seed(['20260101-090000-daily', '20260102-090000-daily', 'notes']);
+    pruneBackups(dir, 1);
+    expect(listBackups(dir)).toHaveLength(1);
+    expect(() => rmSync(path.join(dir, 'notes.json'))).not.toThrow();
+  });
+});
+
+describe('writeBackup', () => {
+  it('does not rotate out other reasons', () => {
+    seed(['20260101-090000-reset', '20260102-090000-daily']);
+
+    const backup = writeBackup(dir, 'daily', { attendance: {} }, 1);
+
+    expect(backup.reason).toBe('daily');
+    expect(backup.size).toBeGreaterThan(0);
+    expect(listBackups(dir).map((item) => item.id)).toEqual([backup.id, '20260101-090000-reset']);
+  });
+});
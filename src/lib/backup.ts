@@ -0,0 +1,154 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import path from 'node:path';
+
+import { formatDateKey } from '../utils/date-utils.js';
+
+export const BACKUP_REASONS = [
+  'daily',
+  'reset',
+  'import',
+  'migration',
+  'restore',
+  'invalid',
+] as const;
+export type BackupReason = (typeof BACKUP_REASONS)[number];
+
+export const DEFAULT_BACKUP_KEEP = 10;
+
+export type BackupInfo = {
+  id: string;
+  reason: BackupReason;
+  createdAt: Date;
+  file: string;
+  size: number;
+};
+
+// Ids look like 20261019-044933-daily (UTC), with a -2, -3… suffix when two
+// snapshots land in the same second.
+const BACKUP_FILE_REGEX = /^(\d{8})-(\d{6})-([a-z]+)(?:-\d+)?\.json$/;
+
+const toStamp = (date: Date): string =>
+  date.toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+
+const parseStamp = (day: string, time: string): Date =>
+  new Date(
+    `${day.slice(0, 4)}-${day.slice(4, 6)}-${day.slice(6, 8)}T${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4, 6)}Z`,
+  );
+
+const describeBackup = (
+  dir: string,
+  name: string,
+  reason: BackupReason,
+  createdAt: Date,
+): BackupInfo => {
+  const file = path.join(dir, name);
+  return {
+    id: name.replace(/\.json$/, ''),
+    reason,
+    createdAt,
+    file,
+    size: statSync(file).size,
+  };
+};
+
+const toBackupInfo = (dir: string, name: string): BackupInfo | undefined => {
+  const match = BACKUP_FILE_REGEX.exec(name);
+  const reason = BACKUP_REASONS.find((candidate) => candidate === match?.[3]);
+  if (!match || !reason) {
+    return undefined;
+  }
+  return describeBackup(dir, name, reason, parseStamp(match[1], match[2]));
+};
+
+/**
+ * Lists the snapshots in the backup directory, newest first. Files that do not
+ * follow the naming scheme are left alone.
+ */
+export const listBackups = (dir: string): BackupInfo[] => {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir)
+    .flatMap((name) => toBackupInfo(dir, name) ?? [])
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id.localeCompare(a.id));
+};
+
+/**
+ * Deletes all but the newest `keep` snapshots of each reason and returns the
+ * removed ones. Daily snapshots never push out a pre-reset or pre-import one.
+ */
+export const pruneBackups = (dir: string, keep: number): BackupInfo[] => {
+  const removed = BACKUP_REASONS.flatMap((reason) =>
+    listBackups(dir)
+      .filter((backup) => backup.reason === reason)
+      .slice(keep),
+  );
+  removed.forEach((backup) => rmSync(backup.file, { force: true }));
+  return removed;
+};
+
+/**
+ * Writes a snapshot and drops the oldest ones of the same reason beyond `keep`.
+ */
+export const writeBackup = (
+  dir: string,
+  reason: BackupReason,
+  data: unknown,
+  keep = DEFAULT_BACKUP_KEEP,
+): BackupInfo => {
+  mkdirSync(dir, { recursive: true });
+  const stamp = toStamp(new Date());
+  const base = `${stamp}-${reason}`;
+  let name = `${base}.json`;
+  for (let suffix = 2; existsSync(path.join(dir, name)); suffix += 1) {
+    name = `${base}-${suffix}.json`;
+  }
+  writeFileSync(path.join(dir, name), `${JSON.stringify(data, null, 2)}\n`, 'utf8');
+  pruneBackups(dir, keep);
+  const [day, time] = stamp.split('-');
+  return describeBackup(dir, name, reason, parseStamp(day, time));
+};
+
+export const hasBackupFromToday = (dir: string, reason: BackupReason): boolean => {
+  const today = formatDateKey(new Date());
+  return listBackups(dir).some(
+    (backup) => backup.reason === reason && formatDateKey(backup.createdAt) === today,
+  );
+};
+
+/**
+ * Finds a snapshot by id or by a unique id prefix, e.g. "20261019".
+ */
+export const findBackup = (dir: string, id: string): BackupInfo => {
+  const backups = listBackups(dir);
+  const exact = backups.find((backup) => backup.id === id);
+  if (exact) {
+    return exact;
+  }
+  const matches = backups.filter((backup) => backup.id.startsWith(id));
+  if (matches.length === 0) {
+    throw new Error(`No backup found with id "${id}". Run roza backup list.`);
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `"${id}" matches ${matches.length} backups. Use the full id from roza backup list.`,
+    );
+  }
+  return matches[0];
+};
+
+export const readBackup = (backup: BackupInfo): unknown => {
+  try {
+    return JSON.parse(readFileSync(backup.file, 'utf8')) as unknown;
+  } catch {
+    throw new Error(`Backup ${backup.id} could not be read.`);
+  }
+};
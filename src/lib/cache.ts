@@ -0,0 +1,64 @@
+import Conf from 'conf';
+import { z } from 'zod';
+
+const CacheEntrySchema = z.object({
+  savedAt: z.number(),
+  expiresAt: z.number(),
+  payload: z.unknown(),
+});
+
+type CacheEntry = z.infer<typeof CacheEntrySchema>;
+
+export interface ReadCacheOptions {
+  readonly allowStale?: boolean;
+}
+
+const cache = new Conf<Record<string, CacheEntry>>({
+  projectName: 'roza-cli',
+  configName: 'cache',
+  accessPropertiesByDotNotation: false,
+});
+
+export const readCache = (key: string, opts: ReadCacheOptions = {}): unknown | undefined => {
+  const parsed = CacheEntrySchema.safeParse(cache.get(key));
+  if (!parsed.success) {
+    return undefined;
+  }
+
+  if (!opts.allowStale && parsed.data.expiresAt <= Date.now()) {
+    return undefined;
+  }
+
+  return parsed.data.payload;
+};
+
+// Expired entries stay this long as an offline fallback, then are dropped.
+const STALE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * Saves an entry and drops the ones that expired longer than the retention
+ * window ago, so the cache file does not grow without bound.
+ */
+export const writeCache = (key: string, payload: unknown, ttlMs: number): void => {
+  const now = Date.now();
+  const kept = Object.entries(cache.store).filter(([, entry]) => {
+    const parsed = CacheEntrySchema.safeParse(entry);
+    return parsed.success && parsed.data.expiresAt + STALE_RETENTION_MS > now;
+  });
+  cache.store = {
+    ...Object.fromEntries(kept),
+    [key]: {
+      savedAt: now,
+      expiresAt: now + ttlMs,
+      payload,
+    },
+  };
+};
+
+export const clearCache = (): number => {
+  const count = Object.keys(cache.store).length;
+  cache.clear();
+  return count;
+};
+
+export const getCachePath = (): string => cache.path;
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+
+import { calcOwedFasts, findTrackedRamadanYears } from './fasts.js';
+import { shiftDateKey } from './hijri.js';
+import type { DayAttendance, FastLedger } from './store.js';
+
+// Umm al-Qura: Ramadan 1445 ran 2024-03-11..2024-04-09 and Ramadan 1446
+// 2025-03-01..2025-03-29; Ramadan 1447 starts 2026-02-18.
+const UPDATED_AT = '2025-03-01T00:00:00.000Z';
+
+const day = (date: string, fasted?: boolean): DayAttendance => ({
+  date,
+  prayers: fasted === undefined ? { Fajr: true } : {},
+  fasted,
+  updatedAt: UPDATED_AT,
+});
+
+// Every day of a Ramadan logged, fasted except the given Ramadan days.
+const ramadan = (start: string, days: number, missed: ReadonlyArray<number>): DayAttendance[] =>
+  Array.from({ length: days }, (_, idx) =>
+    day(shiftDateKey(start, idx), !missed.includes(idx + 1)),
+  );
+
+describe('calcOwedFasts', () => {
+  it('lists missed days up to today and how they were missed', () => {
+    const rows = [
+      day('2025-03-01', true),
+      day('2025-03-02', false),
+      day('2025-03-03'),
+      day('2025-03-06', true),
+    ];
+    const { years, totalRemaining } = calcOwedFasts(rows, {}, {}, '2025-03-05');
+
+    expect(years).toHaveLength(1);
+    expect(years[0]).toMatchObject({
+      hijriYear: 1446,
+      start: '2025-03-01',
+      end: '2025-03-29',
+      deadline: '2026-02-18',
+      lateDays: 0,
+    });
+    // Today (the 5th) only counts once it is logged as not fasted.
+    expect(years[0].owed).toEqual([
+      { date: '2025-03-02', ramadanDay: 2, fasted: false, dayLogged: true, reason: null },
+      { date: '2025-03-03', ramadanDay: 3, fasted: null, dayLogged: true, reason: null },
+      { date: '2025-03-04', ramadanDay: 4, fasted: null, dayLogged: false, reason: null },
+    ]);
+    expect(totalRemaining).toBe(3);
+  });
+
+  it('credits make-ups to the oldest Ramadan that ended before them', () => {
+    const rows = [...ramadan('2024-03-11', 30, [1]), ...ramadan('2025-03-01', 29, [1, 2])];
+    const ledger: FastLedger = {
+      makeups: ['2025-04-10', '2024-03-20', '2025-01-05', '2025-05-01'],
+    };
+    const summary = calcOwedFasts(rows, ledger, {}, '2025-06-01');
+
+    expect(summary.years.map((year) => year.hijriYear)).toEqual([1445, 1446]);
+    expect(summary.years[0].madeUp).toEqual(['2025-01-05']);
+    expect(summary.years[1].madeUp).toEqual(['2025-04-10', '2025-05-01']);
+    // The make-up during Ramadan 1445 has nothing owed before it.
+    expect(summary.unallocatedMakeups).toEqual(['2024-03-20']);
+    expect(summary).toMatchObject({ totalOwed: 3, totalMadeUp: 3, totalRemaining: 0 });
+  });
+
+  it('counts late days once the next Ramadan has started', () => {
+    const rows = ramadan('2025-03-01', 29, [1, 2]);
+    const ledger: FastLedger = { makeups: ['2025-05-01', '2026-03-25'] };
+
+    const before = calcOwedFasts(rows, ledger, {}, '2026-02-17').years[0];
+    expect(before).toMatchObject({ remaining: 0, lateDays: 0 });
+
+    const after = calcOwedFasts(rows, ledger, {}, '2026-02-18', [1446]).years[0];
+    expect(after).toMatchObject({ remaining: 0, lateDays: 1 });
+  });
+
+  it('moves chronic days to fidyah and charges late days only when asked', () => {
+    const rows = ramadan('2025-03-01', 29, [1, 2, 3]);
+    const exemptions: FastLedger['exemptions'] = {
+      '2025-03-01': 'chronic',
+      '2025-03-02': 'travel',
+    };
+    const todayKey = '2026-03-01';
+
+    const plain = calcOwedFasts(rows, { exemptions }, {}, todayKey, [1446]);
+    expect(plain.years[0].fidyahDays.map((missed) => missed.date)).toEqual(['2025-03-01']);
+    expect(plain.years[0].owed.map((missed) => missed.reason)).toEqual(['travel', null]);
+    expect(plain.fidyah).toBeNull();
+
+    const fidyah = { rate: 5.5, currency: 'GBP' };
+    expect(calcOwedFasts(rows, { exemptions, fidyah }, {}, todayKey, [1446]).fidyah).toEqual({
+      days: 1,
+      rate: 5.5,
+      currency: 'GBP',
+      amount: 5.5,
+    });
+    expect(
+      calcOwedFasts(rows, { exemptions, fidyah: { ...fidyah, late: true } }, {}, todayKey, [1446])
+        .fidyah,
+    ).toMatchObject({ days: 3, amount: 16.5 });
+  });
+
+  it('follows an announced Ramadan start', () => {
+    const settings = { ramadanStarts: { '1446': '2025-03-02' } };
+    const { years } = calcOwedFasts([day('2025-03-02', false)], {}, settings, '2025-03-02');
+    expect(years[0]).toMatchObject({ start: '2025-03-02', end: '2025-03-30' });
+    expect(years[0].owed.map((missed) => missed.date)).toEqual(['2025-03-02']);
+  });
+});
+
+describe('findTrackedRamadanYears', () => {
+  it('includes years with logged Ramadan days or exemptions only', () => {
+    const rows = [day('2025-03-10', true), day('2025-06-01', true)];
+    const ledger: FastLedger = { exemptions: { '2024-03-15': 'illness' } };
+    expect(findTrackedRamadanYears(rows, ledger, {})).toEqual([1445, 1446]);
+  });
+});
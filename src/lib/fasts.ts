@@ -0,0 +1,183 @@
+import { addDays } from '../utils/ramadan-utils.js';
+import { resolveHijriMonthRange, resolveHijriParts, type HijriSettings } from './hijri.js';
+import type { DayAttendance, FastExemptionReason, FastLedger, FidyahSettings } from './store.js';
+
+export type MissedFast = {
+  date: string;
+  ramadanDay: number;
+  // false when logged as not fasted, null when the day was never logged.
+  fasted: false | null;
+  // true when the day has a record, e.g. prayers, but the fast was left out.
+  dayLogged: boolean;
+  reason: FastExemptionReason | null;
+};
+
+export type RamadanFastYear = {
+  hijriYear: number;
+  start: string;
+  end: string;
+  // Start of the next Ramadan: make-ups for this one are due before it.
+  deadline: string;
+  // Missed days that are made up by fasting later.
+  owed: MissedFast[];
+  // Missed days covered by fidyah instead (reason `chronic`).
+  fidyahDays: MissedFast[];
+  // Make-up dates credited to this Ramadan, oldest first.
+  madeUp: string[];
+  remaining: number;
+  // Owed days that were not made up before the deadline, once it has passed.
+  lateDays: number;
+};
+
+export type FidyahSummary = {
+  days: number;
+  rate: number;
+  currency: string;
+  amount: number;
+};
+
+export type OwedFastsSummary = {
+  years: RamadanFastYear[];
+  totalOwed: number;
+  totalMadeUp: number;
+  totalRemaining: number;
+  // Make-up fasts with no owed day left to pay off.
+  unallocatedMakeups: string[];
+  // null until a fidyah rate is set.
+  fidyah: FidyahSummary | null;
+};
+
+const getRamadanRange = (
+  hijriYear: number,
+  settings: HijriSettings,
+): { start: string; end: string; days: number } => {
+  const { start, days } = resolveHijriMonthRange(hijriYear, 9, settings);
+  return { start, end: addDays(start, days - 1), days };
+};
+
+/**
+ * Hijri years worth reporting: every Ramadan with a logged day or a recorded
+ * exemption. Ramadans that were never tracked are left out.
+ */
+export const findTrackedRamadanYears = (
+  rows: ReadonlyArray<DayAttendance>,
+  ledger: FastLedger,
+  settings: HijriSettings,
+): number[] => {
+  const years = new Set<number>();
+  const dates = [...rows.map((row) => row.date), ...Object.keys(ledger.exemptions ?? {})];
+  for (const dateKey of dates) {
+    const hijri = resolveHijriParts(dateKey, settings);
+    if (hijri.month === 9) {
+      years.add(hijri.year);
+    }
+  }
+  return [...years].sort((a, b) => a - b);
+};
+
+const collectMissedFasts = (
+  hijriYear: number,
+  attendance: ReadonlyMap<string, DayAttendance>,
+  ledger: FastLedger,
+  settings: HijriSettings,
+  todayKey: string,
+): Omit<RamadanFastYear, 'madeUp' | 'remaining' | 'lateDays'> => {
+  const { start, end, days } = getRamadanRange(hijriYear, settings);
+  const owed: MissedFast[] = [];
+  const fidyahDays: MissedFast[] = [];
+
+  for (let idx = 0; idx < days; idx += 1) {
+    const dateKey = addDays(start, idx);
+    const record = attendance.get(dateKey);
+    const fasted = record?.fasted;
+    // Today only counts once it has been logged as not fasted.
+    if (dateKey > todayKey || (dateKey === todayKey && fasted !== false) || fasted === true) {
+      continue;
+    }
+    const reason = ledger.exemptions?.[dateKey] ?? null;
+    const missed: MissedFast = {
+      date: dateKey,
+      ramadanDay: idx + 1,
+      fasted: fasted === false ? false : null,
+      dayLogged: record !== undefined,
+      reason,
+    };
+    (reason === 'chronic' ? fidyahDays : owed).push(missed);
+  }
+
+  return {
+    hijriYear,
+    start,
+    end,
+    deadline: getRamadanRange(hijriYear + 1, settings).start,
+    owed,
+    fidyahDays,
+  };
+};
+
+const calcFidyah = (
+  years: ReadonlyArray<RamadanFastYear>,
+  settings: FidyahSettings,
+): FidyahSummary => {
+  const days = years.reduce(
+    (sum, year) => sum + year.fidyahDays.length + (settings.late ? year.lateDays : 0),
+    0,
+  );
+  return {
+    days,
+    rate: settings.rate,
+    currency: settings.currency,
+    amount: Number((days * settings.rate).toFixed(2)),
+  };
+};
+
+/**
+ * Works out the missed Ramadan fasts per Hijri year and credits make-up fasts
+ * to them, oldest Ramadan first. A make-up only counts towards a Ramadan that
+ * ended before it.
+ */
+export const calcOwedFasts = (
+  rows: ReadonlyArray<DayAttendance>,
+  ledger: FastLedger,
+  settings: HijriSettings,
+  todayKey: string,
+  hijriYears: ReadonlyArray<number> = findTrackedRamadanYears(rows, ledger, settings),
+): OwedFastsSummary => {
+  const attendance = new Map(rows.map((row) => [row.date, row]));
+  const years: RamadanFastYear[] = hijriYears.map((hijriYear) => ({
+    ...collectMissedFasts(hijriYear, attendance, ledger, settings, todayKey),
+    madeUp: [],
+    remaining: 0,
+    lateDays: 0,
+  }));
+
+  const unallocatedMakeups: string[] = [];
+  for (const makeup of [...(ledger.makeups ?? [])].sort()) {
+    const year = years.find((item) => item.end < makeup && item.madeUp.length < item.owed.length);
+    if (year) {
+      year.madeUp.push(makeup);
+    } else {
+      unallocatedMakeups.push(makeup);
+    }
+  }
+
+  for (const year of years) {
+    year.remaining = year.owed.length - year.madeUp.length;
+    if (todayKey >= year.deadline) {
+      const onTime = year.madeUp.filter((makeup) => makeup < year.deadline).length;
+      year.lateDays = year.owed.length - onTime;
+    }
+  }
+
+  const totalOwed = years.reduce((sum, year) => sum + year.owed.length, 0);
+  const totalMadeUp = years.reduce((sum, year) => sum + year.madeUp.length, 0);
+
+  return {
+    years,
+    totalOwed,
+    totalMadeUp,
+    totalRemaining: totalOwed - totalMadeUp,
+    unallocatedMakeups,
+    fidyah: ledger.fidyah ? calcFidyah(years, ledger.fidyah) : null,
+  };
+};
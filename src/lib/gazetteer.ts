@@ -0,0 +1,175 @@
+import { z } from 'zod';
+
+import citiesJson from '../data/cities.json' with { type: 'json' };
+
+const CitiesDataSchema = z.object({
+  countries: z.record(z.string(), z.string()),
+  cities: z.array(z.tuple([z.string(), z.string(), z.number(), z.number(), z.string()])),
+});
+
+export type GazetteerCity = {
+  readonly name: string;
+  readonly country: string;
+  readonly countryCode: string;
+  readonly latitude: number;
+  readonly longitude: number;
+  readonly timezone: string;
+};
+
+type IndexedCity = {
+  readonly city: GazetteerCity;
+  readonly key: string;
+  readonly countryKey: string;
+};
+
+const DATA = CitiesDataSchema.parse(citiesJson);
+
+export const normalizePlaceName = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const CITIES: ReadonlyArray<IndexedCity> = DATA.cities.map(
+  ([name, countryCode, latitude, longitude, timezone]) => {
+    const country = DATA.countries[countryCode] ?? countryCode;
+    return {
+      city: { name, country, countryCode, latitude, longitude, timezone },
+      key: normalizePlaceName(name),
+      countryKey: normalizePlaceName(country),
+    };
+  },
+);
+
+const COUNTRY_ALIASES: Readonly<Record<string, string>> = {
+  usa: 'US',
+  america: 'US',
+  'united states of america': 'US',
+  uk: 'GB',
+  england: 'GB',
+  scotland: 'GB',
+  wales: 'GB',
+  'great britain': 'GB',
+  ksa: 'SA',
+  uae: 'AE',
+  emirates: 'AE',
+  turkiye: 'TR',
+  holland: 'NL',
+  'russian federation': 'RU',
+  'ivory coast': 'CI',
+  burma: 'MM',
+};
+
+const COUNTRY_CODES: ReadonlyMap<string, string> = new Map([
+  ...Object.entries(DATA.countries).map(
+    ([code, name]) => [normalizePlaceName(name), code] as const,
+  ),
+  ...Object.entries(COUNTRY_ALIASES),
+]);
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, idx) => idx);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Lower is better; undefined means no match. Prefix matches beat substring
+// matches, which beat typo-tolerant matches on the leading characters.
+const scoreName = (key: string, query: string): number | undefined => {
+  if (key === query) {
+    return 0;
+  }
+  if (key.startsWith(query)) {
+    return 1;
+  }
+  if (key.split(' ').some((word) => word.startsWith(query))) {
+    return 2;
+  }
+  if (key.includes(query)) {
+    return 3;
+  }
+
+  const maxTypos = query.length <= 4 ? 1 : 2;
+  const distance = Math.min(
+    editDistance(key.slice(0, query.length), query),
+    editDistance(key, query),
+  );
+  return distance <= maxTypos ? 3 + distance : undefined;
+};
+
+const matchesCountry = (entry: IndexedCity, query: string): boolean =>
+  entry.countryKey.startsWith(query) || entry.city.countryCode.toLowerCase() === query;
+
+/**
+ * Fuzzy-searches the bundled city list. Accepts "city" or "city, country".
+ */
+export const searchCities = (query: string, limit = 8): ReadonlyArray<GazetteerCity> => {
+  const [cityPart = '', countryPart = ''] = query.split(',');
+  const cityQuery = normalizePlaceName(cityPart);
+  const countryQuery = normalizePlaceName(countryPart);
+  if (!cityQuery) {
+    return [];
+  }
+
+  const scored: Array<{ city: GazetteerCity; score: number }> = [];
+  for (const entry of CITIES) {
+    if (countryQuery && !matchesCountry(entry, countryQuery)) {
+      continue;
+    }
+    const score = scoreName(entry.key, cityQuery);
+    if (score !== undefined) {
+      scored.push({ city: entry.city, score });
+    }
+  }
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.city.name.localeCompare(b.city.name))
+    .slice(0, limit)
+    .map(({ city }) => city);
+};
+
+/**
+ * Looks up an exact city name, optionally narrowed to a country name or ISO code.
+ */
+export const findCity = (name: string, country?: string): GazetteerCity | undefined => {
+  const key = normalizePlaceName(name);
+  const countryQuery = country ? normalizePlaceName(country) : '';
+  return CITIES.find(
+    (entry) =>
+      entry.key === key &&
+      (!countryQuery ||
+        entry.countryKey === countryQuery ||
+        entry.city.countryCode.toLowerCase() === countryQuery),
+  )?.city;
+};
+
+/**
+ * Resolves a country name (or common alias / ISO code) to its ISO code.
+ */
+export const findCountryCode = (country: string): string | undefined => {
+  const trimmed = country.trim();
+  if (/^[A-Za-z]{2}$/.test(trimmed) && DATA.countries[trimmed.toUpperCase()]) {
+    return trimmed.toUpperCase();
+  }
+  return COUNTRY_CODES.get(normalizePlaceName(trimmed));
+};
+
+/**
+ * Picks the city an IANA timezone is named after (e.g. Asia/Jakarta -> Jakarta).
+ */
+export const findCityByTimezone = (timezone: string): GazetteerCity | undefined => {
+  const key = normalizePlaceName(timezone.split('/').pop() ?? '');
+  const zoneCities = CITIES.filter((entry) => entry.city.timezone === timezone);
+  return (zoneCities.find((entry) => entry.key === key) ?? zoneCities[0])?.city;
+};
+
+export const formatCityLabel = (city: GazetteerCity): string => `${city.name}, ${city.country}`;
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+
+import ummAlQuraJson from '../data/umm-al-qura.json' with { type: 'json' };
+import {
+  gregorianToHijri,
+  hijriMonthLength,
+  hijriToGregorian,
+  resolveHijriMonthRange,
+  resolveHijriParts,
+  shiftDateKey,
+} from './hijri.js';
+
+const MONTH_LENGTHS: Record<string, number[]> = ummAlQuraJson.monthLengths;
+const FIRST_YEAR = ummAlQuraJson.startYear;
+const LAST_YEAR = FIRST_YEAR + Object.keys(MONTH_LENGTHS).length - 1;
+
+describe('Umm al-Qura table', () => {
+  it('has only 29- and 30-day months and 354- or 355-day years', () => {
+    for (const [year, lengths] of Object.entries(MONTH_LENGTHS)) {
+      expect(lengths, year).toHaveLength(12);
+      expect(
+        lengths.every((length) => length === 29 || length === 30),
+        year,
+      ).toBe(true);
+      expect([354, 355], year).toContain(lengths.reduce((sum, length) => sum + length, 0));
+    }
+  });
+
+  it('round-trips every day of every month in the table', () => {
+    let dateKey = hijriToGregorian({ year: FIRST_YEAR, month: 1, day: 1 });
+    for (let year = FIRST_YEAR; year <= LAST_YEAR; year += 1) {
+      for (let month = 1; month <= 12; month += 1) {
+        const length = hijriMonthLength(year, month);
+        expect(length).toBe(MONTH_LENGTHS[year][month - 1]);
+        for (let day = 1; day <= length; day += 1) {
+          expect(hijriToGregorian({ year, month, day })).toBe(dateKey);
+          expect(gregorianToHijri(dateKey)).toEqual({ year, month, day });
+          dateKey = shiftDateKey(dateKey, 1);
+        }
+      }
+    }
+  });
+
+  it.each([
+    { hijri: { year: 1410, month: 9, day: 1 }, date: '1990-03-28' },
+    { hijri: { year: 1445, month: 9, day: 1 }, date: '2024-03-11' },
+    { hijri: { year: 1446, month: 10, day: 1 }, date: '2025-03-30' },
+    { hijri: { year: 1447, month: 9, day: 1 }, date: '2026-02-18' },
+  ])('puts $hijri.day/$hijri.month/$hijri.year on $date', ({ hijri, date }) => {
+    expect(hijriToGregorian(hijri)).toBe(date);
+    expect(gregorianToHijri(date)).toEqual(hijri);
+  });
+
+  it('falls back to the tabular calendar outside the table', () => {
+    const before = hijriToGregorian({ year: FIRST_YEAR - 1, month: 12, day: 29 });
+    expect(gregorianToHijri(before)).toEqual({ year: FIRST_YEAR - 1, month: 12, day: 29 });
+    const after = hijriToGregorian({ year: LAST_YEAR + 1, month: 1, day: 1 });
+    expect(gregorianToHijri(after)).toEqual({ year: LAST_YEAR + 1, month: 1, day: 1 });
+  });
+});
+
+describe('tabular calendar', () => {
+  it('round-trips a full 30-year cycle', () => {
+    let dateKey = hijriToGregorian({ year: 1441, month: 1, day: 1 }, 'tabular');
+    for (let year = 1441; year <= 1470; year += 1) {
+      for (let month = 1; month <= 12; month += 1) {
+        for (let day = 1; day <= hijriMonthLength(year, month, 'tabular'); day += 1) {
+          expect(gregorianToHijri(dateKey, 'tabular')).toEqual({ year, month, day });
+          dateKey = shiftDateKey(dateKey, 1);
+        }
+      }
+    }
+  });
+});
+
+describe('resolveHijriParts', () => {
+  it('shifts dates by the day adjustment', () => {
+    expect(resolveHijriParts('2026-02-18', { adjustment: -1 })).toEqual({
+      year: 1447,
+      month: 8,
+      day: 29,
+    });
+    expect(resolveHijriMonthRange(1447, 9, { adjustment: -1 }).start).toBe('2026-02-19');
+  });
+
+  it('follows an announced Ramadan start', () => {
+    const settings = { ramadanStarts: { '1447': '2026-02-19' } };
+    expect(resolveHijriParts('2026-02-18', settings)).toEqual({ year: 1447, month: 8, day: 30 });
+    expect(resolveHijriParts('2026-02-19', settings)).toEqual({ year: 1447, month: 9, day: 1 });
+    const { start, days } = resolveHijriMonthRange(1447, 9, settings);
+    const eid = shiftDateKey(start, days);
+    expect(resolveHijriParts(eid, settings)).toEqual({ year: 1447, month: 10, day: 1 });
+  });
+});
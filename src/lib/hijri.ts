@@ -0,0 +1,329 @@
+import ummAlQuraJson from '../data/umm-al-qura.json' with { type: 'json' };
+import type { GregorianDate, HijriDate } from './api.js';
+
+const HIJRI_EPOCH_JD = 1948439.5;
+const UNIX_EPOCH_JD = 2440587.5;
+// The Umm al-Qura table counts days as (Julian day number - 2400000).
+const UMM_AL_QURA_DAY_OFFSET = 2399999.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const HIJRI_CALENDARS = ['umm-al-qura', 'tabular'] as const;
+export type HijriCalendar = (typeof HIJRI_CALENDARS)[number];
+
+type UmmAlQuraTable = {
+  startYear: number;
+  startMjdn: number;
+  monthLengths: Record<string, number[]>;
+};
+
+const UMM_AL_QURA = ummAlQuraJson as UmmAlQuraTable;
+
+export const HIJRI_MONTHS: ReadonlyArray<{ readonly en: string; readonly ar: string }> = [
+  { en: 'Muḥarram', ar: 'مُحَرَّم' },
+  { en: 'Ṣafar', ar: 'صَفَر' },
+  { en: 'Rabīʿ al-awwal', ar: 'رَبيع الأوَّل' },
+  { en: 'Rabīʿ al-thānī', ar: 'رَبيع الثاني' },
+  { en: 'Jumādá al-ūlá', ar: 'جُمادى الأولى' },
+  { en: 'Jumādá al-ākhirah', ar: 'جُمادى الآخرة' },
+  { en: 'Rajab', ar: 'رَجَب' },
+  { en: 'Shaʿbān', ar: 'شَعْبان' },
+  { en: 'Ramaḍān', ar: 'رَمَضان' },
+  { en: 'Shawwāl', ar: 'شَوّال' },
+  { en: 'Dhū al-Qaʿdah', ar: 'ذوالقعدة' },
+  { en: 'Dhū al-Ḥijjah', ar: 'ذوالحجة' },
+];
+
+const GREGORIAN_MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const HIJRI_WEEKDAYS: ReadonlyArray<{ readonly en: string; readonly ar: string }> = [
+  { en: 'Al Ahad', ar: 'الاحد' },
+  { en: 'Al Athnayn', ar: 'الاثنين' },
+  { en: 'Al Thalaata', ar: 'الثلاثاء' },
+  { en: "Al Arba'a", ar: 'الاربعاء' },
+  { en: 'Al Khamees', ar: 'الخميس' },
+  { en: "Al Juma'a", ar: 'الجمعة' },
+  { en: 'Al Sabt', ar: 'السبت' },
+];
+
+export type HijriParts = {
+  year: number;
+  month: number;
+  day: number;
+};
+
+export type GregorianParts = {
+  year: number;
+  month: number;
+  day: number;
+};
+
+export interface HijriSettings {
+  readonly calendar?: HijriCalendar;
+  /** Days added to the calculated Hijri date to follow local moon sighting. */
+  readonly adjustment?: number;
+  /** Announced 1 Ramadan (YYYY-MM-DD) keyed by Hijri year. */
+  readonly ramadanStarts?: Readonly<Record<string, string>>;
+}
+
+export type HijriMonthRange = {
+  start: string;
+  days: number;
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const gregorianToJd = ({ year, month, day }: GregorianParts): number =>
+  Date.UTC(year, month - 1, day) / DAY_MS + UNIX_EPOCH_JD;
+
+const jdToGregorian = (jd: number): GregorianParts => {
+  const date = new Date(Math.round((jd - UNIX_EPOCH_JD) * DAY_MS));
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+};
+
+const tabularHijriToJd = ({ year, month, day }: HijriParts): number =>
+  day +
+  Math.ceil(29.5 * (month - 1)) +
+  (year - 1) * 354 +
+  Math.floor((3 + 11 * year) / 30) +
+  HIJRI_EPOCH_JD -
+  1;
+
+const jdToTabularHijri = (jd: number): HijriParts => {
+  const normalized = Math.floor(jd) + 0.5;
+  const year = Math.floor((30 * (normalized - HIJRI_EPOCH_JD) + 10646) / 10631);
+  const month = Math.min(
+    12,
+    Math.ceil((normalized - (29 + tabularHijriToJd({ year, month: 1, day: 1 }))) / 29.5) + 1,
+  );
+  const day = normalized - tabularHijriToJd({ year, month, day: 1 }) + 1;
+  return { year, month, day };
+};
+
+// Day number of the first day of every month covered by the Umm al-Qura
+// table, with one extra entry marking the end of the last month. A damaged
+// table fails here rather than silently shifting every later date.
+const UMM_AL_QURA_MONTH_STARTS: ReadonlyArray<number> = (() => {
+  const starts = [UMM_AL_QURA.startMjdn];
+  const years = Object.keys(UMM_AL_QURA.monthLengths).sort((a, b) => Number(a) - Number(b));
+  for (const [idx, year] of years.entries()) {
+    const lengths = UMM_AL_QURA.monthLengths[year];
+    const total = lengths.reduce((sum, length) => sum + length, 0);
+    if (Number(year) !== UMM_AL_QURA.startYear + idx || lengths.length !== 12) {
+      throw new Error(`Umm al-Qura table: year ${year} is out of sequence or not 12 months`);
+    }
+    if (lengths.some((length) => length !== 29 && length !== 30)) {
+      throw new Error(`Umm al-Qura table: year ${year} has a month that is not 29 or 30 days`);
+    }
+    if (total !== 354 && total !== 355) {
+      throw new Error(`Umm al-Qura table: year ${year} has ${total} days, not 354 or 355`);
+    }
+    for (const length of lengths) {
+      starts.push(starts[starts.length - 1] + length);
+    }
+  }
+  return starts;
+})();
+
+const UMM_AL_QURA_END_YEAR = UMM_AL_QURA.startYear + (UMM_AL_QURA_MONTH_STARTS.length - 1) / 12 - 1;
+
+const ummAlQuraMonthIndex = (year: number, month: number): number | undefined => {
+  if (year < UMM_AL_QURA.startYear || year > UMM_AL_QURA_END_YEAR) {
+    return undefined;
+  }
+  return (year - UMM_AL_QURA.startYear) * 12 + (month - 1);
+};
+
+const ummAlQuraHijriToJd = ({ year, month, day }: HijriParts): number | undefined => {
+  const index = ummAlQuraMonthIndex(year, month);
+  if (index === undefined) {
+    return undefined;
+  }
+  return UMM_AL_QURA_MONTH_STARTS[index] + day - 1 + UMM_AL_QURA_DAY_OFFSET;
+};
+
+const jdToUmmAlQuraHijri = (jd: number): HijriParts | undefined => {
+  const dayNumber = Math.floor(jd - UMM_AL_QURA_DAY_OFFSET + 0.5);
+  const starts = UMM_AL_QURA_MONTH_STARTS;
+  if (dayNumber < starts[0] || dayNumber >= starts[starts.length - 1]) {
+    return undefined;
+  }
+
+  let index = 0;
+  while (starts[index + 1] <= dayNumber) {
+    index += 1;
+  }
+
+  return {
+    year: UMM_AL_QURA.startYear + Math.floor(index / 12),
+    month: (index % 12) + 1,
+    day: dayNumber - starts[index] + 1,
+  };
+};
+
+const hijriToJd = (hijri: HijriParts, calendar: HijriCalendar): number =>
+  (calendar === 'umm-al-qura' ? ummAlQuraHijriToJd(hijri) : undefined) ?? tabularHijriToJd(hijri);
+
+const jdToHijri = (jd: number, calendar: HijriCalendar): HijriParts =>
+  (calendar === 'umm-al-qura' ? jdToUmmAlQuraHijri(jd) : undefined) ?? jdToTabularHijri(jd);
+
+export const parseGregorianKey = (dateKey: string): GregorianParts => {
+  const [year, month, day] = dateKey.split('-').map((part) => Number(part));
+  return { year, month, day };
+};
+
+export const toGregorianKey = ({ year, month, day }: GregorianParts): string =>
+  `${year}-${pad(month)}-${pad(day)}`;
+
+export const shiftDateKey = (dateKey: string, days: number): string => {
+  const { year, month, day } = parseGregorianKey(dateKey);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return toGregorianKey({
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  });
+};
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round(gregorianToJd(parseGregorianKey(to)) - gregorianToJd(parseGregorianKey(from)));
+
+/**
+ * Converts a Gregorian date key (YYYY-MM-DD) to a Hijri date. Umm al-Qura covers
+ * 1356–1500 AH; dates outside the table fall back to the tabular calendar.
+ */
+export const gregorianToHijri = (
+  dateKey: string,
+  calendar: HijriCalendar = 'umm-al-qura',
+): HijriParts => jdToHijri(gregorianToJd(parseGregorianKey(dateKey)), calendar);
+
+export const hijriToGregorian = (
+  hijri: HijriParts,
+  calendar: HijriCalendar = 'umm-al-qura',
+): string => toGregorianKey(jdToGregorian(hijriToJd(hijri, calendar)));
+
+export const hijriMonthLength = (
+  year: number,
+  month: number,
+  calendar: HijriCalendar = 'umm-al-qura',
+): number => {
+  const start = hijriToJd({ year, month, day: 1 }, calendar);
+  const end =
+    month === 12
+      ? hijriToJd({ year: year + 1, month: 1, day: 1 }, calendar)
+      : hijriToJd({ year, month: month + 1, day: 1 }, calendar);
+  return end - start;
+};
+
+export const hasHijriOverrides = (settings: HijriSettings = {}, year?: number): boolean =>
+  Boolean(settings.adjustment) ||
+  (year === undefined
+    ? Object.keys(settings.ramadanStarts ?? {}).length > 0
+    : Boolean(settings.ramadanStarts?.[String(year)]));
+
+/**
+ * Gregorian start date and length of a Hijri month after applying the user's
+ * day adjustment, or the announced start date when one is saved for Ramadan.
+ */
+export const resolveHijriMonthRange = (
+  year: number,
+  month: number,
+  settings: HijriSettings = {},
+): HijriMonthRange => {
+  const days = hijriMonthLength(year, month, settings.calendar);
+  const announced = month === 9 ? settings.ramadanStarts?.[String(year)] : undefined;
+  if (announced) {
+    return { start: announced, days };
+  }
+
+  const start = hijriToGregorian({ year, month, day: 1 }, settings.calendar);
+  return { start: shiftDateKey(start, -(settings.adjustment ?? 0)), days };
+};
+
+export const resolveHijriParts = (dateKey: string, settings: HijriSettings = {}): HijriParts => {
+  const base = gregorianToHijri(shiftDateKey(dateKey, settings.adjustment ?? 0), settings.calendar);
+  if (!settings.ramadanStarts?.[String(base.year)] || base.month < 8 || base.month > 10) {
+    return base;
+  }
+
+  const { start, days } = resolveHijriMonthRange(base.year, 9, settings);
+  const end = shiftDateKey(start, days);
+  if (dateKey >= start && dateKey < end) {
+    return { year: base.year, month: 9, day: daysBetween(start, dateKey) + 1 };
+  }
+
+  if (base.month === 9 && dateKey < start) {
+    const shabanDays = hijriMonthLength(base.year, 8, settings.calendar);
+    return { year: base.year, month: 8, day: shabanDays + base.day };
+  }
+
+  if (base.month >= 9 && dateKey >= end) {
+    const day = daysBetween(end, dateKey) + 1;
+    if (day <= hijriMonthLength(base.year, 10, settings.calendar)) {
+      return { year: base.year, month: 10, day };
+    }
+  }
+
+  return base;
+};
+
+const weekdayIndex = (dateKey: string): number => {
+  const { year, month, day } = parseGregorianKey(dateKey);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+export const buildHijriDate = (dateKey: string, hijri: HijriParts): HijriDate => {
+  const names = HIJRI_MONTHS[hijri.month - 1];
+  const weekday = HIJRI_WEEKDAYS[weekdayIndex(dateKey)];
+  return {
+    date: `${pad(hijri.day)}-${pad(hijri.month)}-${hijri.year}`,
+    day: pad(hijri.day),
+    month: {
+      number: hijri.month,
+      en: names.en,
+      ar: names.ar,
+    },
+    year: String(hijri.year),
+    weekday: {
+      en: weekday.en,
+      ar: weekday.ar,
+    },
+  };
+};
+
+export const convertToHijriDate = (dateKey: string, settings: HijriSettings = {}): HijriDate =>
+  buildHijriDate(dateKey, resolveHijriParts(dateKey, settings));
+
+export const buildGregorianDate = (dateKey: string): GregorianDate => {
+  const { year, month, day } = parseGregorianKey(dateKey);
+  return {
+    date: `${pad(day)}-${pad(month)}-${year}`,
+    day: pad(day),
+    month: {
+      number: month,
+      en: GREGORIAN_MONTHS[month - 1],
+    },
+    year: String(year),
+    weekday: {
+      en: WEEKDAYS[weekdayIndex(dateKey)],
+    },
+  };
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseMergeStrategy, planAttendanceMerge, planLedgerMerge } from './merge.js';
+import type { DayAttendance } from './store.js';
+
+const day = (
+  date: string,
+  prayers: DayAttendance['prayers'],
+  updatedAt: string,
+  fasted?: boolean,
+): DayAttendance => ({ date, prayers, fasted, updatedAt });
+
+const OURS = day('2026-03-01', { Fajr: true, Dhuhr: false }, '2026-03-01T20:00:00.000Z', true);
+const THEIRS = day('2026-03-01', { Dhuhr: true, Asr: true }, '2026-03-02T08:00:00.000Z');
+
+describe('planAttendanceMerge', () => {
+  it('adds new days and counts identical ones as unchanged', () => {
+    const same = day('2026-03-02', { Fajr: true }, '2026-03-02T05:00:00.000Z');
+    const sameLater = { ...same, updatedAt: '2026-03-05T05:00:00.000Z' };
+    const added = day('2026-03-03', { Isha: true }, '2026-03-03T21:00:00.000Z');
+
+    const plan = planAttendanceMerge(
+      { [same.date]: same },
+      { [added.date]: added, [same.date]: sameLater },
+      'newest',
+    );
+
+    expect(plan.added).toEqual([added]);
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.unchanged).toBe(1);
+    expect(plan.attendance).toEqual({ [same.date]: same, [added.date]: added });
+  });
+
+  it.each([
+    { strategy: 'newest', result: THEIRS },
+    { strategy: 'ours', result: OURS },
+    { strategy: 'theirs', result: THEIRS },
+    {
+      strategy: 'union',
+      result: day(
+        '2026-03-01',
+        { Fajr: true, Dhuhr: true, Asr: true },
+        '2026-03-02T08:00:00.000Z',
+        true,
+      ),
+    },
+  ] as const)('resolves a conflict with $strategy', ({ strategy, result }) => {
+    const plan = planAttendanceMerge({ [OURS.date]: OURS }, { [THEIRS.date]: THEIRS }, strategy);
+
+    expect(plan.conflicts).toEqual([{ date: OURS.date, ours: OURS, theirs: THEIRS, result }]);
+    expect(plan.changed).toHaveLength(strategy === 'ours' ? 0 : 1);
+    expect(plan.attendance[OURS.date]).toEqual(result);
+  });
+
+  it('keeps the local record when newest ties', () => {
+    const tied = { ...THEIRS, updatedAt: OURS.updatedAt };
+    const plan = planAttendanceMerge({ [OURS.date]: OURS }, { [tied.date]: tied }, 'newest');
+    expect(plan.attendance[OURS.date]).toBe(OURS);
+    expect(plan.changed).toEqual([]);
+  });
+
+  it('does not modify the current attendance', () => {
+    const current = { [OURS.date]: OURS };
+    planAttendanceMerge(current, { [THEIRS.date]: THEIRS }, 'theirs');
+    expect(current).toEqual({ [OURS.date]: OURS });
+  });
+});
+
+describe('parseMergeStrategy', () => {
+  it('defaults to newest', () => {
+    expect(parseMergeStrategy(undefined)).toBe('newest');
+    expect(parseMergeStrategy(true)).toBe('newest');
+    expect(parseMergeStrategy('union')).toBe('union');
+  });
+
+  it('rejects unknown strategies', () => {
+    expect(() => parseMergeStrategy('latest')).toThrow(
+      'Merge strategy must be one of: newest, ours, theirs, union',
+    );
+  });
+});
+
+describe('planLedgerMerge', () => {
+  const current = {
+    qada: { startingBalance: { Fajr: 10 }, madeUp: { '2026-03-01': { Fajr: 2 } } },
+    fasts: {
+      exemptions: { '2026-02-20': 'travel' as const },
+      makeups: ['2026-04-01'],
+    },
+  };
+  const incoming = {
+    qada: {
+      startingBalance: { Fajr: 3 },
+      madeUp: { '2026-03-01': { Fajr: 1 }, '2026-03-02': { Isha: 1 } },
+    },
+    fasts: {
+      exemptions: { '2026-02-20': 'illness' as const, '2026-02-21': 'illness' as const },
+      makeups: ['2026-04-01', '2026-04-02'],
+      fidyah: { rate: 5, currency: 'GBP' },
+    },
+  };
+
+  it('adds make-ups and exemptions only the import has', () => {
+    const plan = planLedgerMerge(current, incoming, 'newest');
+
+    expect(plan.fasts).toEqual({
+      exemptions: { '2026-02-20': 'travel', '2026-02-21': 'illness' },
+      makeups: ['2026-04-01', '2026-04-02'],
+      fidyah: { rate: 5, currency: 'GBP' },
+    });
+    expect(plan.qada).toEqual({
+      startingBalance: { Fajr: 10 },
+      madeUp: { '2026-03-01': { Fajr: 2 }, '2026-03-02': { Isha: 1 } },
+    });
+    expect(plan).toMatchObject({ qadaDaysAdded: 1, makeupsAdded: 1, exemptionsAdded: 1 });
+  });
+
+  it('takes the imported entries on both sides with theirs', () => {
+    const plan = planLedgerMerge(current, incoming, 'theirs');
+    expect(plan.fasts.exemptions?.['2026-02-20']).toBe('illness');
+    expect(plan.qada.madeUp?.['2026-03-01']).toEqual({ Fajr: 1 });
+    expect(plan.qada.startingBalance).toEqual({ Fajr: 3 });
+  });
+
+  it('keeps the current ledgers when the import has none', () => {
+    const plan = planLedgerMerge(current, {}, 'newest');
+    expect(plan.fasts.makeups).toEqual(['2026-04-01']);
+    expect(plan.qada.madeUp).toEqual(current.qada.madeUp);
+    expect(plan).toMatchObject({ qadaDaysAdded: 0, makeupsAdded: 0, exemptionsAdded: 0 });
+  });
+});
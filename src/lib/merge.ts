@@ -0,0 +1,173 @@
+import {
+  PRAYERS,
+  type DayAttendance,
+  type FastLedger,
+  type PrayerRecord,
+  type QadaLedger,
+  type StoreState,
+} from './store.js';
+
+export const MERGE_STRATEGIES = ['newest', 'ours', 'theirs', 'union'] as const;
+export type MergeStrategy = (typeof MERGE_STRATEGIES)[number];
+
+export type MergeConflict = {
+  date: string;
+  ours: DayAttendance;
+  theirs: DayAttendance;
+  result: DayAttendance;
+};
+
+export type MergePlan = {
+  added: ReadonlyArray<DayAttendance>;
+  // Days that exist on both sides and differ, with the record the strategy picked.
+  conflicts: ReadonlyArray<MergeConflict>;
+  // Conflicts whose stored record will actually change.
+  changed: ReadonlyArray<MergeConflict>;
+  unchanged: number;
+  attendance: Record<string, DayAttendance>;
+};
+
+export const parseMergeStrategy = (value: string | boolean | undefined): MergeStrategy => {
+  if (value === undefined || value === true) {
+    return 'newest';
+  }
+  const strategy = MERGE_STRATEGIES.find((candidate) => candidate === value);
+  if (!strategy) {
+    throw new Error(`Merge strategy must be one of: ${MERGE_STRATEGIES.join(', ')}`);
+  }
+  return strategy;
+};
+
+const isSameDay = (a: DayAttendance, b: DayAttendance): boolean =>
+  a.fasted === b.fasted && PRAYERS.every((prayer) => a.prayers[prayer] === b.prayers[prayer]);
+
+const unionDays = (ours: DayAttendance, theirs: DayAttendance): DayAttendance => {
+  const prayers: PrayerRecord = Object.fromEntries(
+    PRAYERS.filter(
+      (prayer) => ours.prayers[prayer] !== undefined || theirs.prayers[prayer] !== undefined,
+    ).map((prayer) => [prayer, ours.prayers[prayer] === true || theirs.prayers[prayer] === true]),
+  );
+  const fasted =
+    ours.fasted === true || theirs.fasted === true ? true : (ours.fasted ?? theirs.fasted);
+  return {
+    date: ours.date,
+    prayers,
+    fasted,
+    updatedAt: ours.updatedAt > theirs.updatedAt ? ours.updatedAt : theirs.updatedAt,
+  };
+};
+
+const resolveConflict = (
+  ours: DayAttendance,
+  theirs: DayAttendance,
+  strategy: MergeStrategy,
+): DayAttendance => {
+  switch (strategy) {
+    case 'ours':
+      return ours;
+    case 'theirs':
+      return theirs;
+    case 'union':
+      return unionDays(ours, theirs);
+    case 'newest':
+      // Ties keep the local record.
+      return Date.parse(theirs.updatedAt) > Date.parse(ours.updatedAt) ? theirs : ours;
+  }
+};
+
+/**
+ * Works out what merging imported attendance into the current store would do,
+ * without writing anything.
+ */
+export const planAttendanceMerge = (
+  current: Record<string, DayAttendance>,
+  incoming: Record<string, DayAttendance>,
+  strategy: MergeStrategy,
+): MergePlan => {
+  const attendance = { ...current };
+  const added: DayAttendance[] = [];
+  const conflicts: MergeConflict[] = [];
+  let unchanged = 0;
+
+  for (const [dateKey, theirs] of Object.entries(incoming).sort(([a], [b]) => a.localeCompare(b))) {
+    const ours = current[dateKey];
+    if (!ours) {
+      added.push(theirs);
+      attendance[dateKey] = theirs;
+      continue;
+    }
+    if (isSameDay(ours, theirs)) {
+      unchanged += 1;
+      continue;
+    }
+    const result = resolveConflict(ours, theirs, strategy);
+    conflicts.push({ date: dateKey, ours, theirs, result });
+    attendance[dateKey] = result;
+  }
+
+  return {
+    added,
+    conflicts,
+    changed: conflicts.filter((conflict) => !isSameDay(conflict.ours, conflict.result)),
+    unchanged,
+    attendance,
+  };
+};
+
+export type LedgerMergePlan = {
+  qada: QadaLedger;
+  fasts: FastLedger;
+  // Days of qada make-ups only the import had.
+  qadaDaysAdded: number;
+  makeupsAdded: number;
+  exemptionsAdded: number;
+};
+
+// Entries both sides have keep the local value, except with `theirs`.
+const mergeRecords = <T>(
+  ours: Readonly<Record<string, T>> = {},
+  theirs: Readonly<Record<string, T>> = {},
+  strategy: MergeStrategy,
+): { merged: Record<string, T>; added: number } => {
+  const added = Object.keys(theirs).filter((key) => !(key in ours)).length;
+  const merged = strategy === 'theirs' ? { ...ours, ...theirs } : { ...theirs, ...ours };
+  return {
+    merged: Object.fromEntries(Object.entries(merged).sort(([a], [b]) => a.localeCompare(b))),
+    added,
+  };
+};
+
+/**
+ * Merges the qada and fasts ledgers of an import into the current ones. Make-up
+ * fast dates are combined; days and exemptions only the import has are added.
+ */
+export const planLedgerMerge = (
+  current: Pick<StoreState, 'qada' | 'fasts'>,
+  incoming: Pick<StoreState, 'qada' | 'fasts'>,
+  strategy: MergeStrategy,
+): LedgerMergePlan => {
+  const ours = { qada: current.qada ?? {}, fasts: current.fasts ?? {} };
+  const theirs = { qada: incoming.qada ?? {}, fasts: incoming.fasts ?? {} };
+  const pick = <T>(a: T | undefined, b: T | undefined): T | undefined =>
+    strategy === 'theirs' ? (b ?? a) : (a ?? b);
+
+  const madeUp = mergeRecords(ours.qada.madeUp, theirs.qada.madeUp, strategy);
+  const exemptions = mergeRecords(ours.fasts.exemptions, theirs.fasts.exemptions, strategy);
+  const ourMakeups = new Set(ours.fasts.makeups ?? []);
+  const newMakeups = (theirs.fasts.makeups ?? []).filter((makeup) => !ourMakeups.has(makeup));
+
+  return {
+    qada: {
+      startingBalance: pick(ours.qada.startingBalance, theirs.qada.startingBalance),
+      madeUp: madeUp.merged,
+    },
+    fasts: {
+      exemptions: exemptions.merged,
+      makeups: [...ourMakeups, ...newMakeups].sort(),
+      fidyah: pick(ours.fasts.fidyah, theirs.fasts.fidyah),
+    },
+    qadaDaysAdded: madeUp.added,
+    makeupsAdded: newMakeups.length,
+    exemptionsAdded: exemptions.added,
+  };
+};
@@ -0,0 +1,182 @@
+import { findCity, findCountryCode, normalizePlaceName } from './gazetteer.js';
+
+export type MethodRecommendation = {
+  readonly method: number;
+  readonly school: number;
+};
+
+type CountryRecommendation = MethodRecommendation & {
+  // Cities (normalized names) whose local convention differs from the rest of the country.
+  readonly regions?: Readonly<Record<string, Partial<MethodRecommendation>>>;
+};
+
+const SHAFI = 0;
+const HANAFI = 1;
+
+// Conventional Aladhan method ids per ISO country code.
+const COUNTRY_RECOMMENDATIONS: Readonly<Record<string, CountryRecommendation>> = {
+  // Gulf & Arabian Peninsula
+  SA: { method: 4, school: SHAFI },
+  YE: { method: 4, school: SHAFI },
+  AE: { method: 16, school: SHAFI },
+  QA: { method: 10, school: SHAFI },
+  KW: { method: 9, school: SHAFI },
+  BH: { method: 8, school: SHAFI },
+  OM: { method: 8, school: SHAFI },
+  // Levant, Iraq & Iran
+  JO: { method: 23, school: SHAFI },
+  PS: { method: 5, school: SHAFI },
+  SY: { method: 5, school: SHAFI },
+  LB: { method: 5, school: SHAFI },
+  IQ: {
+    method: 3,
+    school: SHAFI,
+    regions: { najaf: { method: 0 }, karbala: { method: 0 }, basra: { method: 0 } },
+  },
+  IR: { method: 7, school: SHAFI },
+  // North Africa
+  EG: { method: 5, school: SHAFI },
+  SD: { method: 5, school: SHAFI },
+  LY: { method: 5, school: SHAFI },
+  TN: { method: 18, school: SHAFI },
+  DZ: { method: 19, school: SHAFI },
+  MA: { method: 21, school: SHAFI },
+  // Sub-Saharan Africa
+  MR: { method: 5, school: SHAFI },
+  SN: { method: 5, school: SHAFI },
+  GM: { method: 5, school: SHAFI },
+  GN: { method: 5, school: SHAFI },
+  ML: { method: 5, school: SHAFI },
+  BF: { method: 5, school: SHAFI },
+  NE: { method: 5, school: SHAFI },
+  NG: { method: 5, school: SHAFI },
+  TD: { method: 5, school: SHAFI },
+  CM: { method: 5, school: SHAFI },
+  SO: { method: 5, school: SHAFI },
+  DJ: { method: 5, school: SHAFI },
+  ET: { method: 5, school: SHAFI },
+  KE: { method: 5, school: SHAFI },
+  TZ: { method: 5, school: SHAFI },
+  // South Asia
+  PK: { method: 1, school: HANAFI },
+  IN: { method: 1, school: HANAFI, regions: { kozhikode: { school: SHAFI } } },
+  BD: { method: 1, school: HANAFI },
+  AF: { method: 1, school: HANAFI },
+  LK: { method: 1, school: SHAFI },
+  MV: { method: 3, school: SHAFI },
+  // Southeast Asia
+  ID: { method: 20, school: SHAFI },
+  MY: { method: 17, school: SHAFI },
+  SG: { method: 11, school: SHAFI },
+  BN: { method: 11, school: SHAFI },
+  TH: { method: 3, school: SHAFI },
+  PH: { method: 3, school: SHAFI },
+  // Turkey, the Balkans, Russia & Central Asia
+  TR: { method: 13, school: HANAFI },
+  BA: { method: 13, school: HANAFI },
+  AL: { method: 13, school: HANAFI },
+  XK: { method: 13, school: HANAFI },
+  MK: { method: 13, school: HANAFI },
+  RU: {
+    method: 14,
+    school: HANAFI,
+    regions: { grozny: { school: SHAFI }, makhachkala: { school: SHAFI } },
+  },
+  AZ: { method: 13, school: SHAFI },
+  KZ: { method: 3, school: HANAFI },
+  UZ: { method: 3, school: HANAFI },
+  KG: { method: 3, school: HANAFI },
+  TJ: { method: 3, school: HANAFI },
+  TM: { method: 3, school: HANAFI },
+  CN: { method: 3, school: HANAFI },
+  // Europe: national conventions first, Muslim World League elsewhere
+  GB: { method: 15, school: SHAFI },
+  IE: { method: 15, school: SHAFI },
+  FR: { method: 12, school: SHAFI },
+  PT: { method: 22, school: SHAFI },
+  DE: { method: 3, school: SHAFI },
+  NL: { method: 3, school: SHAFI },
+  BE: { method: 3, school: SHAFI },
+  LU: { method: 3, school: SHAFI },
+  AT: { method: 3, school: SHAFI },
+  CH: { method: 3, school: SHAFI },
+  IT: { method: 3, school: SHAFI },
+  ES: { method: 3, school: SHAFI },
+  GR: { method: 3, school: SHAFI },
+  MT: { method: 3, school: SHAFI },
+  CY: { method: 3, school: SHAFI },
+  DK: { method: 3, school: SHAFI },
+  NO: { method: 3, school: SHAFI },
+  SE: { method: 3, school: SHAFI },
+  FI: { method: 3, school: SHAFI },
+  IS: { method: 3, school: SHAFI },
+  PL: { method: 3, school: SHAFI },
+  CZ: { method: 3, school: SHAFI },
+  SK: { method: 3, school: SHAFI },
+  HU: { method: 3, school: SHAFI },
+  SI: { method: 3, school: SHAFI },
+  HR: { method: 3, school: SHAFI },
+  RO: { method: 3, school: SHAFI },
+  EE: { method: 3, school: SHAFI },
+  LV: { method: 3, school: SHAFI },
+  LT: { method: 3, school: SHAFI },
+  // North America & the Caribbean
+  US: { method: 2, school: SHAFI },
+  CA: { method: 2, school: SHAFI },
+  MX: { method: 2, school: SHAFI },
+  PR: { method: 2, school: SHAFI },
+  JM: { method: 2, school: SHAFI },
+  TT: { method: 2, school: SHAFI },
+  BS: { method: 2, school: SHAFI },
+  BB: { method: 2, school: SHAFI },
+  // Central & South America
+  GT: { method: 3, school: SHAFI },
+  HN: { method: 3, school: SHAFI },
+  SV: { method: 3, school: SHAFI },
+  NI: { method: 3, school: SHAFI },
+  CR: { method: 3, school: SHAFI },
+  PA: { method: 3, school: SHAFI },
+  CO: { method: 3, school: SHAFI },
+  VE: { method: 3, school: SHAFI },
+  EC: { method: 3, school: SHAFI },
+  PE: { method: 3, school: SHAFI },
+  BO: { method: 3, school: SHAFI },
+  BR: { method: 3, school: SHAFI },
+  PY: { method: 3, school: SHAFI },
+  UY: { method: 3, school: SHAFI },
+  AR: { method: 3, school: SHAFI },
+  CL: { method: 3, school: SHAFI },
+  GY: { method: 3, school: SHAFI },
+  SR: { method: 3, school: SHAFI },
+  // Oceania
+  AU: { method: 3, school: SHAFI },
+  NZ: { method: 3, school: SHAFI },
+  FJ: { method: 3, school: SHAFI },
+};
+
+export type RecommendationInput = {
+  readonly country?: string;
+  readonly countryCode?: string;
+  readonly city?: string;
+};
+
+/**
+ * Suggests the locally conventional calculation method and Asr school for a country.
+ * Returns undefined when the country is unknown or has no single convention.
+ */
+export const recommendMethod = (input: RecommendationInput): MethodRecommendation | undefined => {
+  const countryCode =
+    input.countryCode ??
+    (input.country ? findCountryCode(input.country) : undefined) ??
+    (input.city ? findCity(input.city)?.countryCode : undefined);
+  const entry = countryCode ? COUNTRY_RECOMMENDATIONS[countryCode] : undefined;
+  if (!entry) {
+    return undefined;
+  }
+
+  const region = input.city ? entry.regions?.[normalizePlaceName(input.city)] : undefined;
+  return {
+    method: region?.method ?? entry.method,
+    school: region?.school ?? entry.school,
+  };
+};
@@ -0,0 +1,60 @@
+export const CURRENT_SCHEMA_VERSION = 1;
+
+type StoreData = Record<string, unknown>;
+
+export interface Migration {
+  // The schema version this migration upgrades to, from the version before it.
+  readonly version: number;
+  readonly description: string;
+  readonly up: (data: StoreData) => StoreData;
+}
+
+/**
+ * Ordered upgrade steps. Add a new entry (and bump CURRENT_SCHEMA_VERSION)
+ * whenever the stored shape changes; never edit a released step.
+ */
+const MIGRATIONS: ReadonlyArray<Migration> = [
+  {
+    version: 1,
+    description: 'Stamp stores written before versioning',
+    up: (data) => data,
+  },
+];
+
+export type MigrationResult = {
+  data: unknown;
+  fromVersion: number;
+  applied: ReadonlyArray<Migration>;
+};
+
+const isPlainObject = (value: unknown): value is StoreData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Stores and exports without a `schemaVersion` predate versioning (version 0).
+ */
+export const getSchemaVersion = (data: unknown): number =>
+  isPlainObject(data) && typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+
+/**
+ * Upgrades store or export data one step at a time to the current version.
+ * Data that is not an object is returned as is so validation can report it.
+ */
+export const migrateStoreData = (data: unknown): MigrationResult => {
+  const fromVersion = getSchemaVersion(data);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `This data uses schema version ${fromVersion}, but this roza only understands up to ${CURRENT_SCHEMA_VERSION}. Update roza-cli first.`,
+    );
+  }
+  if (!isPlainObject(data)) {
+    return { data, fromVersion, applied: [] };
+  }
+
+  const applied = MIGRATIONS.filter((migration) => migration.version > fromVersion);
+  const migrated = applied.reduce<StoreData>(
+    (current, migration) => ({ ...migration.up(current), schemaVersion: migration.version }),
+    data,
+  );
+  return { data: migrated, fromVersion, applied };
+};
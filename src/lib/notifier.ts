@@ -0,0 +1,241 @@
+import { spawn } from 'node:child_process';
+import { readFileSync, rmSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+import { formatDateKey } from '../utils/date-utils.js';
+import { getNowInTimezone } from '../utils/prayer-status.js';
+import { isRamadanDate, toHijriSettings } from '../utils/ramadan-utils.js';
+import { extractTime, parseTimeToMinutes } from '../utils/time-utils.js';
+import type { PrayerTimings } from './api.js';
+import {
+  getConfig,
+  getConfigDir,
+  PRAYERS,
+  type NotificationSettings,
+  type NotifyEvent,
+  type UserConfig,
+} from './store.js';
+import { createTimingsContext, resolveDailyTimings } from './timings.js';
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  events: ['Imsak', 'Fajr', 'Dhuhr', 'Asr', 'Maghrib', 'Isha'],
+  before: { Maghrib: 10 },
+};
+
+export interface ScheduledAlert {
+  readonly key: string;
+  readonly event: NotifyEvent;
+  // Minutes since local midnight when the alert fires.
+  readonly minutes: number;
+  readonly title: string;
+  readonly body: string;
+}
+
+const TICK_MS = 15_000;
+const RETRY_MS = 60_000;
+// Alerts missed by more than this (e.g. after a suspend) are skipped, not replayed.
+const GRACE_MINUTES = 2;
+
+export const getNotifierPaths = (): { pidFile: string; logFile: string } => {
+  const dir = getConfigDir();
+  return { pidFile: path.join(dir, 'notify.pid'), logFile: path.join(dir, 'notify.log') };
+};
+
+const isProcessRunning = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+/**
+ * Returns the PID of the running notifier, clearing a stale PID file.
+ */
+export const readNotifierPid = (): number | undefined => {
+  const { pidFile } = getNotifierPaths();
+  let pid: number;
+  try {
+    pid = Number(readFileSync(pidFile, 'utf8').trim());
+  } catch {
+    return undefined;
+  }
+  if (Number.isInteger(pid) && pid > 0 && isProcessRunning(pid)) {
+    return pid;
+  }
+  rmSync(pidFile, { force: true });
+  return undefined;
+};
+
+export const writeNotifierPid = (pid: number): void => {
+  writeFileSync(getNotifierPaths().pidFile, `${pid}\n`);
+};
+
+export const clearNotifierPid = (): void => {
+  rmSync(getNotifierPaths().pidFile, { force: true });
+};
+
+const describeAlert = (
+  event: NotifyEvent,
+  time: string,
+  minutesBefore: number,
+  isRamadan: boolean,
+): { title: string; body: string } => {
+  const soon = minutesBefore > 0 ? ` in ${minutesBefore} min` : '';
+  if (isRamadan && event === 'Imsak') {
+    return {
+      title: minutesBefore > 0 ? `Imsak${soon}` : 'Imsak: stop eating',
+      body: `Suhoor ends at ${time}`,
+    };
+  }
+  if (isRamadan && event === 'Maghrib') {
+    return {
+      title: minutesBefore > 0 ? `Iftar${soon}` : 'Iftar: time to break the fast',
+      body: `Maghrib at ${time}`,
+    };
+  }
+  if (minutesBefore > 0) {
+    return { title: `${event}${soon}`, body: `Starts at ${time}` };
+  }
+  const prayer = PRAYERS.find((name) => name === event);
+  return {
+    title: event,
+    body: prayer
+      ? `${event} has started (${time}). Log it: roza mark -p ${prayer.toLowerCase()}`
+      : `${event} at ${time}`,
+  };
+};
+
+/**
+ * Lists the day's alerts in firing order. Imsak is only announced during Ramadan.
+ */
+export const buildDailyAlerts = (
+  timings: PrayerTimings,
+  settings: NotificationSettings,
+  isRamadan: boolean,
+): ScheduledAlert[] => {
+  const alerts: ScheduledAlert[] = [];
+  for (const event of settings.events) {
+    if (event === 'Imsak' && !isRamadan) {
+      continue;
+    }
+    const start = parseTimeToMinutes(timings[event]);
+    if (start === null) {
+      continue;
+    }
+    const time = extractTime(timings[event]);
+    const offsets = [settings.before?.[event], 0].filter(
+      (minutes): minutes is number => minutes !== undefined,
+    );
+    for (const minutesBefore of offsets) {
+      alerts.push({
+        key: `${event}-${minutesBefore}`,
+        event,
+        minutes: start - minutesBefore,
+        ...describeAlert(event, time, minutesBefore, isRamadan),
+      });
+    }
+  }
+  return alerts.sort((a, b) => a.minutes - b.minutes);
+};
+
+export const sendNotification = (alert: ScheduledAlert, log: (message: string) => void): void => {
+  const child = spawn('notify-send', ['--app-name=roza', alert.title, alert.body], {
+    stdio: 'ignore',
+  });
+  child.on('error', (error) => log(`notify-send failed: ${error.message}`));
+};
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+const toLocalDate = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map((part) => Number(part));
+  return new Date(year, month - 1, day);
+};
+
+export interface DailyAlerts {
+  readonly alerts: ScheduledAlert[];
+  readonly timezone: string;
+  readonly isRamadan: boolean;
+}
+
+/**
+ * Resolves a day's timings for the configured location and lists its alerts.
+ */
+export const loadDailyAlerts = async (
+  config: UserConfig,
+  dateKey: string,
+): Promise<DailyAlerts> => {
+  if (!config.location) {
+    throw new Error('Location is required. Run schedule first.');
+  }
+  const context = createTimingsContext(config.location, config);
+  const data = await resolveDailyTimings(context, toLocalDate(dateKey));
+  const isRamadan = isRamadanDate(dateKey, toHijriSettings(config));
+  return {
+    alerts: buildDailyAlerts(
+      data.timings,
+      config.notifications ?? DEFAULT_NOTIFICATION_SETTINGS,
+      isRamadan,
+    ),
+    timezone: config.timezone ?? data.meta.timezone,
+    isRamadan,
+  };
+};
+
+/**
+ * Runs the notification loop forever. Timings are re-resolved whenever the
+ * local date changes, so the day rolls over at midnight.
+ */
+export const runNotifier = async (log: (message: string) => void): Promise<never> => {
+  let dayKey: string | undefined;
+  let timezone: string | undefined;
+  let alerts: ScheduledAlert[] = [];
+  const fired = new Set<string>();
+
+  while (true) {
+    let config: UserConfig;
+    try {
+      config = getConfig();
+    } catch (error) {
+      // An invalid store is reported, then re-read until it is repaired.
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      log(`Failed to read settings: ${message}`);
+      await sleep(RETRY_MS);
+      continue;
+    }
+    const todayKey = formatDateKey(new Date(), config.timezone ?? config.coordinates?.timezone);
+    if (todayKey !== dayKey) {
+      try {
+        const day = await loadDailyAlerts(config, todayKey);
+        alerts = day.alerts;
+        timezone = day.timezone;
+        dayKey = todayKey;
+        fired.clear();
+        log(
+          `Scheduled ${alerts.length} alerts for ${todayKey}${day.isRamadan ? ' (Ramadan)' : ''}.`,
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        log(`Failed to load prayer times: ${message}`);
+        await sleep(RETRY_MS);
+        continue;
+      }
+    }
+
+    const now = getNowInTimezone(timezone).minutes;
+    for (const alert of alerts) {
+      if (fired.has(alert.key) || alert.minutes > now) {
+        continue;
+      }
+      fired.add(alert.key);
+      if (now - alert.minutes <= GRACE_MINUTES) {
+        log(`${alert.title}: ${alert.body}`);
+        sendNotification(alert, log);
+      }
+    }
+
+    await sleep(TICK_MS);
+  }
+};
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PrayerTimings } from './api.js';
+import {
+  calculatePrayerData,
+  findHighLatitudeAdjustments,
+  type CalculateOptions,
+} from './prayer-calc.js';
+import type { HighLatitudeRule } from './store.js';
+
+type ReferenceTimes = Pick<
+  PrayerTimings,
+  'Fajr' | 'Sunrise' | 'Dhuhr' | 'Asr' | 'Maghrib' | 'Isha'
+>;
+
+const toMinutes = (time: string): number => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+};
+
+// Rounding differs slightly between implementations, so allow one minute
+// either side. Times just after midnight are compared across the day boundary.
+const expectClose = (actual: PrayerTimings, expected: ReferenceTimes): void => {
+  for (const [name, time] of Object.entries(expected)) {
+    const diff = Math.abs(toMinutes(actual[name as keyof ReferenceTimes]) - toMinutes(time));
+    expect(
+      Math.min(diff, 24 * 60 - diff),
+      `${name}: ${actual[name as keyof ReferenceTimes]}`,
+    ).toBeLessThanOrEqual(1);
+  }
+};
+
+const LONDON = { latitude: 51.5074, longitude: -0.1278, timezone: 'Europe/London' };
+const OSLO = { latitude: 59.9139, longitude: 10.7522, timezone: 'Europe/Oslo' };
+
+// Reference times from the adhan library for the same places, dates and methods.
+const REFERENCE_CITIES: ReadonlyArray<{
+  name: string;
+  date: string;
+  options: CalculateOptions;
+  expected: ReferenceTimes;
+}> = [
+  {
+    name: 'Makkah, Umm al-Qura',
+    date: '2026-05-01',
+    options: { latitude: 21.4225, longitude: 39.8262, timezone: 'Asia/Riyadh', method: 4 },
+    expected: {
+      Fajr: '04:29',
+      Sunrise: '05:50',
+      Dhuhr: '12:18',
+      Asr: '15:39',
+      Maghrib: '18:46',
+      Isha: '20:16',
+    },
+  },
+  {
+    name: 'London, Muslim World League',
+    date: '2026-03-21',
+    options: { ...LONDON, method: 3 },
+    expected: {
+      Fajr: '04:07',
+      Sunrise: '06:01',
+      Dhuhr: '12:09',
+      Asr: '15:28',
+      Maghrib: '18:15',
+      Isha: '20:02',
+    },
+  },
+  {
+    name: 'Karachi, Karachi with Hanafi Asr',
+    date: '2026-01-15',
+    options: {
+      latitude: 24.8607,
+      longitude: 67.0011,
+      timezone: 'Asia/Karachi',
+      method: 1,
+      school: 1,
+    },
+    expected: {
+      Fajr: '05:58',
+      Sunrise: '07:19',
+      Dhuhr: '12:42',
+      Asr: '16:28',
+      Maghrib: '18:04',
+      Isha: '19:24',
+    },
+  },
+  {
+    name: 'New York, ISNA',
+    date: '2026-06-01',
+    options: { latitude: 40.7128, longitude: -74.006, timezone: 'America/New_York', method: 2 },
+    expected: {
+      Fajr: '03:50',
+      Sunrise: '05:27',
+      Dhuhr: '12:55',
+      Asr: '16:53',
+      Maghrib: '20:21',
+      Isha: '21:58',
+    },
+  },
+  {
+    name: 'Cairo, Egyptian General Authority',
+    date: '2026-09-10',
+    options: { latitude: 30.0444, longitude: 31.2357, timezone: 'Africa/Cairo', method: 5 },
+    expected: {
+      Fajr: '05:08',
+      Sunrise: '06:37',
+      Dhuhr: '12:53',
+      Asr: '16:23',
+      Maghrib: '19:07',
+      Isha: '20:25',
+    },
+  },
+];
+
+// Midsummer in Oslo: the sun never gets 18° below the horizon, so Fajr and Isha
+// come from the high-latitude rule.
+const HIGH_LATITUDE_CASES: ReadonlyArray<{ rule: HighLatitudeRule; expected: ReferenceTimes }> = [
+  {
+    rule: 'angle-based',
+    expected: {
+      Fajr: '02:21',
+      Sunrise: '03:54',
+      Dhuhr: '13:20',
+      Asr: '18:00',
+      Maghrib: '22:44',
+      Isha: '00:12',
+    },
+  },
+  {
+    rule: 'middle-of-night',
+    expected: {
+      Fajr: '01:19',
+      Sunrise: '03:54',
+      Dhuhr: '13:20',
+      Asr: '18:00',
+      Maghrib: '22:44',
+      Isha: '01:19',
+    },
+  },
+  {
+    rule: 'one-seventh',
+    expected: {
+      Fajr: '03:09',
+      Sunrise: '03:54',
+      Dhuhr: '13:20',
+      Asr: '18:00',
+      Maghrib: '22:44',
+      Isha: '23:28',
+    },
+  },
+];
+
+describe('calculatePrayerData', () => {
+  it.each(REFERENCE_CITIES)('matches reference times for $name', ({ date, options, expected }) => {
+    const data = calculatePrayerData(date, options);
+    expectClose(data.timings, expected);
+    expect(data.meta.method.id).toBe(options.method);
+  });
+
+  it.each(HIGH_LATITUDE_CASES)(
+    'applies the $rule rule in Oslo at midsummer',
+    ({ rule, expected }) => {
+      const options = { ...OSLO, method: 3, highLatitudeRule: rule };
+      expectClose(calculatePrayerData('2026-06-21', options).timings, expected);
+      expect(findHighLatitudeAdjustments('2026-06-21', options)).toEqual(['Fajr', 'Isha']);
+    },
+  );
+
+  it('leaves times alone when the sun sets deep enough', () => {
+    expect(findHighLatitudeAdjustments('2026-03-21', { ...LONDON, method: 3 })).toEqual([]);
+  });
+
+  it('puts Imsak ten minutes before Fajr', () => {
+    const { timings } = calculatePrayerData('2026-03-21', { ...LONDON, method: 3 });
+    expect(toMinutes(timings.Fajr) - toMinutes(timings.Imsak)).toBe(10);
+  });
+
+  it('applies tune offsets only to the custom method', () => {
+    const custom = { fajrAngle: 18, ishaAngle: 17, tune: { Fajr: 5 } };
+    const base = calculatePrayerData('2026-03-21', { ...LONDON, method: 3 }).timings;
+    const tuned = calculatePrayerData('2026-03-21', { ...LONDON, method: 99, custom }).timings;
+    const ignored = calculatePrayerData('2026-03-21', { ...LONDON, method: 3, custom }).timings;
+    expect(toMinutes(tuned.Fajr) - toMinutes(base.Fajr)).toBe(5);
+    expect(tuned.Isha).toBe(base.Isha);
+    expect(ignored.Fajr).toBe(base.Fajr);
+  });
+});
@@ -0,0 +1,390 @@
+import type { PrayerData, PrayerTimings } from './api.js';
+import {
+  buildGregorianDate,
+  convertToHijriDate,
+  parseGregorianKey,
+  type HijriSettings,
+} from './hijri.js';
+import type { CustomMethod, HighLatitudeRule, TuneKey } from './store.js';
+
+type AngleOrMinutes = { readonly angle: number } | { readonly minutes: number };
+
+type MethodParams = {
+  readonly name: string;
+  readonly fajr: number;
+  readonly isha: AngleOrMinutes;
+  readonly maghrib?: AngleOrMinutes;
+  readonly midnight?: 'standard' | 'jafari';
+};
+
+const METHOD_PARAMS: Readonly<Record<number, MethodParams>> = {
+  0: {
+    name: 'Shia Ithna-Ashari, Leva Institute, Qum',
+    fajr: 16,
+    isha: { angle: 14 },
+    maghrib: { angle: 4 },
+    midnight: 'jafari',
+  },
+  1: { name: 'University of Islamic Sciences, Karachi', fajr: 18, isha: { angle: 18 } },
+  2: { name: 'Islamic Society of North America (ISNA)', fajr: 15, isha: { angle: 15 } },
+  3: { name: 'Muslim World League', fajr: 18, isha: { angle: 17 } },
+  4: { name: 'Umm Al-Qura University, Makkah', fajr: 18.5, isha: { minutes: 90 } },
+  5: { name: 'Egyptian General Authority of Survey', fajr: 19.5, isha: { angle: 17.5 } },
+  7: {
+    name: 'Institute of Geophysics, University of Tehran',
+    fajr: 17.7,
+    isha: { angle: 14 },
+    maghrib: { angle: 4.5 },
+    midnight: 'jafari',
+  },
+  8: { name: 'Gulf Region', fajr: 19.5, isha: { minutes: 90 } },
+  9: { name: 'Kuwait', fajr: 18, isha: { angle: 17.5 } },
+  10: { name: 'Qatar', fajr: 18, isha: { minutes: 90 } },
+  11: { name: 'Majlis Ugama Islam Singapura, Singapore', fajr: 20, isha: { angle: 18 } },
+  12: { name: 'Union Organization Islamic de France', fajr: 12, isha: { angle: 12 } },
+  13: { name: 'Diyanet İşleri Başkanlığı, Turkey', fajr: 18, isha: { angle: 17 } },
+  14: { name: 'Spiritual Administration of Muslims of Russia', fajr: 16, isha: { angle: 15 } },
+  15: { name: 'Moonsighting Committee Worldwide', fajr: 18, isha: { angle: 18 } },
+  16: { name: 'Dubai', fajr: 18.2, isha: { angle: 18.2 } },
+  17: { name: 'Jabatan Kemajuan Islam Malaysia (JAKIM)', fajr: 20, isha: { angle: 18 } },
+  18: { name: 'Tunisia', fajr: 18, isha: { angle: 18 } },
+  19: { name: 'Algeria', fajr: 18, isha: { angle: 17 } },
+  20: { name: 'Kementerian Agama Republik Indonesia', fajr: 20, isha: { angle: 18 } },
+  21: { name: 'Morocco', fajr: 19, isha: { angle: 17 } },
+  22: { name: 'Comunidade Islamica de Lisboa', fajr: 18, isha: { minutes: 77 } },
+  23: {
+    name: 'Ministry of Awqaf, Islamic Affairs and Holy Places, Jordan',
+    fajr: 18,
+    isha: { angle: 18 },
+  },
+};
+
+const DEFAULT_METHOD_ID = 3;
+export const CUSTOM_METHOD_ID = 99;
+export const DEFAULT_CUSTOM_ISHA_ANGLE = 17;
+const IMSAK_MINUTES_BEFORE_FAJR = 10;
+// Aladhan applies the angle-based rule unless told otherwise.
+export const DEFAULT_HIGH_LATITUDE_RULE: HighLatitudeRule = 'angle-based';
+
+export interface CalculateOptions {
+  readonly latitude: number;
+  readonly longitude: number;
+  readonly method?: number;
+  readonly school?: number;
+  readonly timezone: string;
+  readonly elevation?: number;
+  readonly hijri?: HijriSettings;
+  readonly custom?: CustomMethod;
+  readonly highLatitudeRule?: HighLatitudeRule;
+}
+
+export type HighLatitudePrayer = 'Fajr' | 'Maghrib' | 'Isha';
+
+type SolarTimes = {
+  fajr: number;
+  sunrise: number;
+  dhuhr: number;
+  asr: number;
+  sunset: number;
+  maghrib: number;
+  isha: number;
+};
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+const sin = (degrees: number): number => Math.sin(toRadians(degrees));
+const cos = (degrees: number): number => Math.cos(toRadians(degrees));
+const tan = (degrees: number): number => Math.tan(toRadians(degrees));
+const arcsin = (value: number): number => toDegrees(Math.asin(value));
+const arccos = (value: number): number => toDegrees(Math.acos(value));
+const arctan2 = (y: number, x: number): number => toDegrees(Math.atan2(y, x));
+const arccot = (value: number): number => toDegrees(Math.atan(1 / value));
+const fixAngle = (value: number): number => value - 360 * Math.floor(value / 360);
+const fixHour = (value: number): number => value - 24 * Math.floor(value / 24);
+
+const toCustomParams = (custom: CustomMethod): MethodParams => ({
+  name: 'Custom',
+  fajr: custom.fajrAngle,
+  isha:
+    custom.ishaMinutes !== undefined
+      ? { minutes: custom.ishaMinutes }
+      : { angle: custom.ishaAngle ?? DEFAULT_CUSTOM_ISHA_ANGLE },
+  maghrib: custom.maghribMinutes ? { minutes: custom.maghribMinutes } : undefined,
+  midnight: custom.midnightMode,
+});
+
+export const resolveMethodParams = (
+  methodId?: number,
+  custom?: CustomMethod,
+): MethodParams & { readonly id: number } => {
+  if (methodId === CUSTOM_METHOD_ID && custom) {
+    return { id: CUSTOM_METHOD_ID, ...toCustomParams(custom) };
+  }
+  const id = methodId !== undefined && METHOD_PARAMS[methodId] ? methodId : DEFAULT_METHOD_ID;
+  return { id, ...METHOD_PARAMS[id] };
+};
+
+const julianDate = (year: number, month: number, day: number): number => {
+  let y = year;
+  let m = month;
+  if (m <= 2) {
+    y -= 1;
+    m += 12;
+  }
+  const a = Math.floor(y / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (y + 4716)) + Math.floor(30.6001 * (m + 1)) + day + b - 1524.5;
+};
+
+const sunPosition = (jd: number): { declination: number; equation: number } => {
+  const d = jd - 2451545.0;
+  const g = fixAngle(357.529 + 0.98560028 * d);
+  const q = fixAngle(280.459 + 0.98564736 * d);
+  const l = fixAngle(q + 1.915 * sin(g) + 0.02 * sin(2 * g));
+  const e = 23.439 - 0.00000036 * d;
+  const ra = arctan2(cos(e) * sin(l), cos(l)) / 15;
+  return {
+    declination: arcsin(sin(e) * sin(l)),
+    equation: q / 15 - fixHour(ra),
+  };
+};
+
+/**
+ * Returns the UTC offset (in hours) of an IANA timezone on the given date.
+ */
+export const getTimezoneOffsetHours = (timezone: string, date: Date): number => {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map((part) => [part.type, part.value]),
+  );
+  const asUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second),
+  );
+  return (asUtc - date.getTime()) / (60 * 60 * 1000);
+};
+
+const nightPortion = (rule: HighLatitudeRule, angle: number): number => {
+  switch (rule) {
+    case 'middle-of-night':
+      return 1 / 2;
+    case 'one-seventh':
+      return 1 / 7;
+    case 'angle-based':
+      return angle / 60;
+  }
+};
+
+// When the sun never gets deep enough below the horizon (or the twilight runs
+// longer than the rule allows), clamp the time to a fixed share of the night.
+const applyHighLatitudeRule = (
+  times: SolarTimes,
+  params: MethodParams,
+  rule: HighLatitudeRule,
+): { times: SolarTimes; adjusted: ReadonlyArray<HighLatitudePrayer> } => {
+  const night = times.sunrise + 24 - times.sunset;
+  const adjusted: HighLatitudePrayer[] = [];
+  const clamp = (
+    prayer: HighLatitudePrayer,
+    time: number,
+    base: number,
+    angle: number,
+    beforeBase: boolean,
+  ): number => {
+    const portion = nightPortion(rule, angle) * night;
+    const diff = beforeBase ? base - time : time - base;
+    if (Number.isFinite(time) && diff <= portion) {
+      return time;
+    }
+    adjusted.push(prayer);
+    return beforeBase ? base - portion : base + portion;
+  };
+
+  const next = { ...times };
+  next.fajr = clamp('Fajr', times.fajr, times.sunrise, params.fajr, true);
+  if (params.maghrib && 'angle' in params.maghrib) {
+    next.maghrib = clamp('Maghrib', times.maghrib, times.sunset, params.maghrib.angle, false);
+  }
+  if ('angle' in params.isha) {
+    next.isha = clamp('Isha', times.isha, times.sunset, params.isha.angle, false);
+  }
+  return { times: next, adjusted };
+};
+
+const computeSolarTimes = (
+  jd: number,
+  opts: CalculateOptions,
+  params: MethodParams,
+): { times: SolarTimes; adjusted: ReadonlyArray<HighLatitudePrayer> } => {
+  const { latitude } = opts;
+  const asrFactor = opts.school === 1 ? 2 : 1;
+  const riseSetAngle = 0.833 + 0.0347 * Math.sqrt(Math.max(0, opts.elevation ?? 0));
+
+  const midDay = (time: number): number => fixHour(12 - sunPosition(jd + time).equation);
+
+  const sunAngleTime = (angle: number, time: number, beforeNoon: boolean): number => {
+    const { declination } = sunPosition(jd + time);
+    const noon = midDay(time);
+    const t =
+      arccos(
+        (-sin(angle) - sin(declination) * sin(latitude)) / (cos(declination) * cos(latitude)),
+      ) / 15;
+    return noon + (beforeNoon ? -t : t);
+  };
+
+  const asrTime = (time: number): number => {
+    const { declination } = sunPosition(jd + time);
+    const angle = -arccot(asrFactor + tan(Math.abs(latitude - declination)));
+    return sunAngleTime(angle, time, false);
+  };
+
+  const initial: SolarTimes = {
+    fajr: 5,
+    sunrise: 6,
+    dhuhr: 12,
+    asr: 13,
+    sunset: 18,
+    maghrib: 18,
+    isha: 18,
+  };
+
+  const pass = (times: SolarTimes): SolarTimes => ({
+    fajr: sunAngleTime(params.fajr, times.fajr / 24, true),
+    sunrise: sunAngleTime(riseSetAngle, times.sunrise / 24, true),
+    dhuhr: midDay(times.dhuhr / 24),
+    asr: asrTime(times.asr / 24),
+    sunset: sunAngleTime(riseSetAngle, times.sunset / 24, false),
+    maghrib:
+      params.maghrib && 'angle' in params.maghrib
+        ? sunAngleTime(params.maghrib.angle, times.maghrib / 24, false)
+        : times.maghrib,
+    isha:
+      'angle' in params.isha ? sunAngleTime(params.isha.angle, times.isha / 24, false) : times.isha,
+  });
+
+  const { times: computed, adjusted } = applyHighLatitudeRule(
+    pass(initial),
+    params,
+    opts.highLatitudeRule ?? DEFAULT_HIGH_LATITUDE_RULE,
+  );
+  const maghrib =
+    params.maghrib && 'minutes' in params.maghrib
+      ? computed.sunset + params.maghrib.minutes / 60
+      : params.maghrib
+        ? computed.maghrib
+        : computed.sunset;
+  const isha = 'minutes' in params.isha ? maghrib + params.isha.minutes / 60 : computed.isha;
+
+  return { times: { ...computed, maghrib, isha }, adjusted };
+};
+
+const formatHours = (hours: number): string => {
+  if (!Number.isFinite(hours)) {
+    return '--:--';
+  }
+  const totalMinutes = Math.round(fixHour(hours) * 60) % (24 * 60);
+  const hour = Math.floor(totalMinutes / 60);
+  const minute = totalMinutes % 60;
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+const formatReadable = (dateKey: string): string => {
+  const { year, month, day } = parseGregorianKey(dateKey);
+  return new Intl.DateTimeFormat('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  }).format(new Date(Date.UTC(year, month - 1, day)));
+};
+
+/**
+ * Computes prayer times locally for a single date (YYYY-MM-DD) using the same
+ * calculation method ids as the Aladhan API.
+ */
+export const calculatePrayerData = (dateKey: string, opts: CalculateOptions): PrayerData => {
+  const { year, month, day } = parseGregorianKey(dateKey);
+  const params = resolveMethodParams(opts.method, opts.custom);
+  const jd = julianDate(year, month, day) - opts.longitude / (15 * 24);
+  const solar = computeSolarTimes(jd, opts, params).times;
+
+  const noonUtc = new Date(Date.UTC(year, month - 1, day, 12));
+  const offset = getTimezoneOffsetHours(opts.timezone, noonUtc) - opts.longitude / 15;
+  const local = Object.fromEntries(
+    Object.entries(solar).map(([key, value]) => [key, value + offset]),
+  ) as SolarTimes;
+
+  const nightEnd = params.midnight === 'jafari' ? local.fajr + 24 : local.sunrise + 24;
+  const night = nightEnd - local.sunset;
+  const midnight = local.sunset + night / 2;
+
+  // Per-prayer minute offsets only apply to the custom profile, like Aladhan's `tune`.
+  const tune = params.id === CUSTOM_METHOD_ID ? opts.custom?.tune : undefined;
+  const tuned = (key: TuneKey, hours: number): string =>
+    formatHours(hours + (tune?.[key] ?? 0) / 60);
+
+  const timings: PrayerTimings = {
+    Fajr: tuned('Fajr', local.fajr),
+    Sunrise: tuned('Sunrise', local.sunrise),
+    Dhuhr: tuned('Dhuhr', local.dhuhr),
+    Asr: tuned('Asr', local.asr),
+    Sunset: tuned('Sunset', local.sunset),
+    Maghrib: tuned('Maghrib', local.maghrib),
+    Isha: tuned('Isha', local.isha),
+    Imsak: tuned('Imsak', local.fajr - IMSAK_MINUTES_BEFORE_FAJR / 60),
+    Midnight: tuned('Midnight', midnight),
+    Firstthird: formatHours(local.sunset + night / 3),
+    Lastthird: formatHours(local.sunset + (2 * night) / 3),
+  };
+
+  return {
+    timings,
+    date: {
+      readable: formatReadable(dateKey),
+      timestamp: String(Math.floor(noonUtc.getTime() / 1000)),
+      hijri: convertToHijriDate(dateKey, opts.hijri),
+      gregorian: buildGregorianDate(dateKey),
+    },
+    meta: {
+      latitude: opts.latitude,
+      longitude: opts.longitude,
+      timezone: opts.timezone,
+      method: {
+        id: params.id,
+        name: params.name,
+      },
+      school: opts.school === 1 ? { id: 1, name: 'HANAFI' } : { id: 0, name: 'STANDARD' },
+    },
+  };
+};
+
+/**
+ * Lists the prayers the high-latitude rule had to adjust on a date (YYYY-MM-DD).
+ */
+export const findHighLatitudeAdjustments = (
+  dateKey: string,
+  opts: CalculateOptions,
+): ReadonlyArray<HighLatitudePrayer> => {
+  const { year, month, day } = parseGregorianKey(dateKey);
+  const params = resolveMethodParams(opts.method, opts.custom);
+  const jd = julianDate(year, month, day) - opts.longitude / (15 * 24);
+  return computeSolarTimes(jd, opts, params).adjusted;
+};
+
+export const calculatePrayerCalendar = (
+  dateKeys: ReadonlyArray<string>,
+  opts: CalculateOptions,
+): ReadonlyArray<PrayerData> => dateKeys.map((dateKey) => calculatePrayerData(dateKey, opts));
@@ -0,0 +1,133 @@
+import { addDays } from '../utils/ramadan-utils.js';
+import {
+  PRAYERS,
+  type DayAttendance,
+  type PrayerCounts,
+  type PrayerName,
+  type QadaLedger,
+} from './store.js';
+
+export type QadaCounts = Record<PrayerName, number>;
+
+export type QadaBalance = {
+  // Prayers not marked done on logged days before today.
+  missed: QadaCounts;
+  startingBalance: QadaCounts;
+  madeUp: QadaCounts;
+  remaining: QadaCounts;
+  totalRemaining: number;
+  // First and last logged day that counted towards `missed`.
+  from: string | null;
+  to: string | null;
+};
+
+export type QadaProjection = {
+  // Make-ups per day the projection assumes.
+  pace: number;
+  // True when the pace was taken from recent make-ups rather than given.
+  observed: boolean;
+  daysLeft: number | null;
+  finishDate: string | null;
+};
+
+export const QADA_PACE_WINDOW_DAYS = 30;
+
+const emptyCounts = (): QadaCounts =>
+  Object.fromEntries(PRAYERS.map((prayer) => [prayer, 0])) as QadaCounts;
+
+const toCounts = (counts: PrayerCounts = {}): QadaCounts =>
+  Object.fromEntries(PRAYERS.map((prayer) => [prayer, counts[prayer] ?? 0])) as QadaCounts;
+
+export const sumCounts = (counts: PrayerCounts): number =>
+  PRAYERS.reduce((sum, prayer) => sum + (counts[prayer] ?? 0), 0);
+
+/**
+ * Counts prayers not marked done on days before `todayKey`. Only days with at
+ * least one prayer logged count: a day that was never filled in says nothing
+ * about which prayers were missed.
+ */
+export const countMissedPrayers = (
+  rows: ReadonlyArray<DayAttendance>,
+  todayKey: string,
+): { missed: QadaCounts; from: string | null; to: string | null } => {
+  const counted = rows
+    .filter((row) => row.date < todayKey)
+    .filter((row) => PRAYERS.some((prayer) => row.prayers[prayer] !== undefined))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const missed = emptyCounts();
+  for (const row of counted) {
+    for (const prayer of PRAYERS) {
+      if (row.prayers[prayer] !== true) {
+        missed[prayer] += 1;
+      }
+    }
+  }
+  return {
+    missed,
+    from: counted[0]?.date ?? null,
+    to: counted[counted.length - 1]?.date ?? null,
+  };
+};
+
+export const calcQadaBalance = (
+  rows: ReadonlyArray<DayAttendance>,
+  ledger: QadaLedger,
+  todayKey: string,
+): QadaBalance => {
+  const { missed, from, to } = countMissedPrayers(rows, todayKey);
+  const startingBalance = toCounts(ledger.startingBalance);
+  const madeUp = emptyCounts();
+  for (const day of Object.values(ledger.madeUp ?? {})) {
+    for (const prayer of PRAYERS) {
+      madeUp[prayer] += day[prayer] ?? 0;
+    }
+  }
+  const remaining = Object.fromEntries(
+    PRAYERS.map((prayer) => [
+      prayer,
+      Math.max(0, missed[prayer] + startingBalance[prayer] - madeUp[prayer]),
+    ]),
+  ) as QadaCounts;
+
+  return {
+    missed,
+    startingBalance,
+    madeUp,
+    remaining,
+    totalRemaining: sumCounts(remaining),
+    from,
+    to,
+  };
+};
+
+/**
+ * Average make-ups per day over the last QADA_PACE_WINDOW_DAYS days, today included.
+ */
+export const calcRecentPace = (ledger: QadaLedger, todayKey: string): number => {
+  const start = addDays(todayKey, -(QADA_PACE_WINDOW_DAYS - 1));
+  const total = Object.entries(ledger.madeUp ?? {})
+    .filter(([dateKey]) => dateKey >= start && dateKey <= todayKey)
+    .reduce((sum, [, counts]) => sum + sumCounts(counts), 0);
+  return Number((total / QADA_PACE_WINDOW_DAYS).toFixed(2));
+};
+
+/**
+ * Projects when the balance is paid off, at a given pace or the recent one.
+ */
+export const projectQadaPayoff = (
+  balance: QadaBalance,
+  ledger: QadaLedger,
+  todayKey: string,
+  pace?: number,
+): QadaProjection => {
+  const perDay = pace ?? calcRecentPace(ledger, todayKey);
+  const observed = pace === undefined;
+  if (balance.totalRemaining === 0) {
+    return { pace: perDay, observed, daysLeft: 0, finishDate: todayKey };
+  }
+  if (perDay <= 0) {
+    return { pace: perDay, observed, daysLeft: null, finishDate: null };
+  }
+  const daysLeft = Math.ceil(balance.totalRemaining / perDay);
+  return { pace: perDay, observed, daysLeft, finishDate: addDays(todayKey, daysLeft) };
+};
@@ -1,10 +1,34 @@
-import { cancel, intro, isCancel, outro, select, text } from '@clack/prompts';
+import { autocomplete, cancel, intro, isCancel, outro, select, text } from '@clack/prompts';
 import ora from 'ora';
 import pc from 'picocolors';
 
 import { fetchMethods, type MethodsResponse } from './api.js';
+import {
+  findCityByTimezone,
+  formatCityLabel,
+  searchCities,
+  type GazetteerCity,
+} from './gazetteer.js';
 import { guessLocation } from './geo.js';
-import { getConfig, setConfig, type LocationConfig, type UserConfig } from './store.js';
+import { recommendMethod, type MethodRecommendation } from './method-recommendations.js';
+import { CUSTOM_METHOD_ID, DEFAULT_CUSTOM_ISHA_ANGLE } from './prayer-calc.js';
+import {
+  getConfig,
+  HIGH_LATITUDE_RULES,
+  setConfig,
+  type CustomMethod,
+  type HighLatitudeRule,
+  type LocationConfig,
+  type UserConfig,
+} from './store.js';
+import {
+  parseElevation,
+  parseLatitude,
+  parseLongitude,
+  toPromptValidator,
+} from '../utils/coords-utils.js';
+import { formatTune, parseAngle, parseMinutes, parseTune } from '../utils/method-utils.js';
+import { getHijriYear, parseDateKey } from '../utils/ramadan-utils.js';
 
 type DetectedLocation = {
   city?: string;
@@ -13,24 +37,57 @@ type DetectedLocation = {
 };
 
 const FALLBACK_METHODS: MethodsResponse = {
+  '0': { id: 0, name: 'Shia Ithna-Ashari, Leva Institute, Qum' },
   '1': { id: 1, name: 'University of Islamic Sciences, Karachi' },
   '2': { id: 2, name: 'Islamic Society of North America (ISNA)' },
   '3': { id: 3, name: 'Muslim World League' },
   '4': { id: 4, name: 'Umm Al-Qura, Makkah' },
   '5': { id: 5, name: 'Egyptian General Authority of Survey' },
   '7': { id: 7, name: 'Institute of Geophysics, University of Tehran' },
-  '17': { id: 17, name: 'Indonesia' },
+  '8': { id: 8, name: 'Gulf Region' },
+  '9': { id: 9, name: 'Kuwait' },
+  '10': { id: 10, name: 'Qatar' },
+  '11': { id: 11, name: 'Majlis Ugama Islam Singapura, Singapore' },
+  '12': { id: 12, name: 'Union Organization Islamic de France' },
+  '13': { id: 13, name: 'Diyanet İşleri Başkanlığı, Turkey' },
+  '14': { id: 14, name: 'Spiritual Administration of Muslims of Russia' },
+  '15': { id: 15, name: 'Moonsighting Committee Worldwide' },
+  '16': { id: 16, name: 'Dubai' },
+  '17': { id: 17, name: 'Jabatan Kemajuan Islam Malaysia (JAKIM)' },
+  '18': { id: 18, name: 'Tunisia' },
+  '19': { id: 19, name: 'Algeria' },
+  '20': { id: 20, name: 'Kementerian Agama Republik Indonesia' },
+  '21': { id: 21, name: 'Morocco' },
+  '22': { id: 22, name: 'Comunidade Islamica de Lisboa' },
+  '23': { id: 23, name: 'Ministry of Awqaf, Islamic Affairs and Holy Places, Jordan' },
 };
 
-const detectLocation = async (): Promise<DetectedLocation | null> => guessLocation();
+// Above roughly this latitude Fajr/Isha twilight can last all night in summer.
+const HIGH_LATITUDE_THRESHOLD = 48;
+
+const SCHOOL_OPTIONS = [
+  { value: 0, label: 'Shafi', hint: 'Standard Asr timing' },
+  { value: 1, label: 'Hanafi', hint: 'Later Asr timing' },
+];
+
+// Falls back to the system timezone when every IP lookup fails (e.g. offline).
+const detectLocation = async (): Promise<DetectedLocation | null> => {
+  const guessed = await guessLocation();
+  if (guessed) {
+    return guessed;
+  }
+
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const city = findCityByTimezone(timezone);
+  return city ? { city: city.name, country: city.country, timezone } : null;
+};
 
 const hasSetup = (config: UserConfig): boolean => {
   return Boolean(config.location && typeof config.method === 'number' && typeof config.school === 'number');
 };
 
-const buildMethodOptions = (methods: MethodsResponse, country?: string) => {
+const buildMethodOptions = (methods: MethodsResponse, recommendedId?: number) => {
   const list = Object.values(methods).sort((a, b) => a.id - b.id);
-  const recommendedId = pickRecommendedMethodId(methods, country);
 
   if (recommendedId !== undefined) {
     list.sort((a, b) => {
@@ -40,46 +97,194 @@ const buildMethodOptions = (methods: MethodsResponse, country?: string) => {
     });
   }
 
-  return list.map((method) => ({
-    value: method.id,
-    label: method.name + (method.id === recommendedId ? ' (Recommended)' : ''),
-    hint: method.id === recommendedId ? 'Based on your country' : undefined,
-  }));
+  return [
+    ...list
+      .filter((method) => method.id !== CUSTOM_METHOD_ID)
+      .map((method) => ({
+        value: method.id,
+        label: method.name + (method.id === recommendedId ? ' (Recommended)' : ''),
+        hint: method.id === recommendedId ? 'Based on your country' : undefined,
+      })),
+    {
+      value: CUSTOM_METHOD_ID,
+      label: 'Custom',
+      hint: 'Your own angles and minute offsets',
+    },
+  ];
 };
 
-const pickRecommendedMethodId = (methods: MethodsResponse, country?: string): number | undefined => {
-  if (!country) {
+const pickRecommendedMethodId = (
+  methods: MethodsResponse,
+  recommendation?: MethodRecommendation,
+): number | undefined => {
+  if (!recommendation) {
     return undefined;
   }
 
-  const countryKey = country.trim().toLowerCase();
   const methodList = Object.values(methods);
+  return methodList.some((method) => method.id === recommendation.method)
+    ? recommendation.method
+    : undefined;
+};
+
+const buildSchoolOptions = (recommendedSchool: number) =>
+  SCHOOL_OPTIONS.map((option) => ({
+    ...option,
+    label: option.label + (option.value === recommendedSchool ? ' (Recommended)' : ''),
+  }));
+
+export const promptCustomMethod = async (existing?: CustomMethod): Promise<CustomMethod> => {
+  const fajrAngle = await text({
+    message: 'Fajr angle in degrees',
+    initialValue: String(existing?.fajrAngle ?? 18),
+    validate: toPromptValidator(parseAngle),
+  });
+
+  if (isCancel(fajrAngle)) {
+    cancel('Setup cancelled.');
+    process.exit(0);
+  }
+
+  const ishaMode = await select({
+    message: 'Isha is based on',
+    options: [
+      { value: 'angle', label: 'Sun angle' },
+      { value: 'minutes', label: 'Fixed minutes after Maghrib' },
+    ],
+    initialValue: existing?.ishaMinutes !== undefined ? 'minutes' : 'angle',
+  });
+
+  if (isCancel(ishaMode)) {
+    cancel('Setup cancelled.');
+    process.exit(0);
+  }
+
+  const ishaValue = await text({
+    message: ishaMode === 'angle' ? 'Isha angle in degrees' : 'Minutes after Maghrib',
+    initialValue:
+      ishaMode === 'angle'
+        ? String(existing?.ishaAngle ?? DEFAULT_CUSTOM_ISHA_ANGLE)
+        : String(existing?.ishaMinutes ?? 90),
+    validate: toPromptValidator(ishaMode === 'angle' ? parseAngle : (value) => parseMinutes(value)),
+  });
+
+  if (isCancel(ishaValue)) {
+    cancel('Setup cancelled.');
+    process.exit(0);
+  }
+
+  const maghribMinutes = await text({
+    message: 'Maghrib offset in minutes after sunset',
+    initialValue: String(existing?.maghribMinutes ?? 0),
+    validate: toPromptValidator((value) => parseMinutes(value, 60)),
+  });
+
+  if (isCancel(maghribMinutes)) {
+    cancel('Setup cancelled.');
+    process.exit(0);
+  }
+
+  const tuneInput = await text({
+    message: 'Safety offsets in minutes (e.g. 2 for every prayer, or Fajr=2, Isha=3)',
+    initialValue: formatTune(existing?.tune),
+    validate: (value) => {
+      try {
+        parseTune(value ?? '');
+        return undefined;
+      } catch (error) {
+        return error instanceof Error ? error.message : 'Invalid offsets';
+      }
+    },
+  });
+
+  if (isCancel(tuneInput)) {
+    cancel('Setup cancelled.');
+    process.exit(0);
+  }
+
+  const midnightMode = await select({
+    message: 'Midnight is measured',
+    options: [
+      { value: 'standard', label: 'Sunset to sunrise (Standard)' },
+      { value: 'jafari', label: 'Sunset to Fajr (Jafari)' },
+    ],
+    initialValue: existing?.midnightMode ?? 'standard',
+  });
 
-  if (countryKey === 'indonesia') {
-    const match = methodList.find((method) => method.name.toLowerCase().includes('indonesia'));
-    return match?.id;
+  if (isCancel(midnightMode)) {
+    cancel('Setup cancelled.');
+    process.exit(0);
   }
 
-  return undefined;
+  const ishaNumber = ishaMode === 'angle' ? parseAngle(ishaValue) : parseMinutes(ishaValue);
+  const maghribOffset = parseMinutes(maghribMinutes, 60);
+
+  return {
+    fajrAngle: parseAngle(fajrAngle),
+    ishaAngle: ishaMode === 'angle' ? ishaNumber : undefined,
+    ishaMinutes: ishaMode === 'minutes' ? ishaNumber : undefined,
+    maghribMinutes: maghribOffset || undefined,
+    tune: parseTune(tuneInput),
+    midnightMode: midnightMode === 'jafari' ? 'jafari' : undefined,
+  };
 };
 
-export const ensureSetup = async (): Promise<UserConfig> => {
-  const existing = getConfig();
-  if (hasSetup(existing)) {
-    return existing;
+export const promptCoordsLocation = async (label?: string): Promise<LocationConfig> => {
+  const latitude = await text({
+    message: 'Latitude (e.g. -6.9175)',
+    validate: toPromptValidator(parseLatitude),
+  });
+
+  if (isCancel(latitude)) {
+    cancel('Setup cancelled.');
+    process.exit(0);
   }
 
-  intro('Ramadan CLI Setup');
+  const longitude = await text({
+    message: 'Longitude (e.g. 107.6191)',
+    validate: toPromptValidator(parseLongitude),
+  });
 
-  const spinner = ora('Detecting location...').start();
-  const detected = await detectLocation();
+  if (isCancel(longitude)) {
+    cancel('Setup cancelled.');
+    process.exit(0);
+  }
 
-  if (detected?.city && detected?.country) {
-    spinner.succeed(`Detected: ${detected.city}, ${detected.country}`);
-  } else {
-    spinner.warn('Unable to detect location automatically.');
+  const labelInput = await text({
+    message: 'Label (optional)',
+    initialValue: label ?? '',
+  });
+
+  if (isCancel(labelInput)) {
+    cancel('Setup cancelled.');
+    process.exit(0);
+  }
+
+  const elevation = await text({
+    message: 'Elevation in meters (optional)',
+    validate: (value) => (value ? toPromptValidator(parseElevation)(value) : undefined),
+  });
+
+  if (isCancel(elevation)) {
+    cancel('Setup cancelled.');
+    process.exit(0);
   }
 
+  return {
+    type: 'coords',
+    latitude: parseLatitude(latitude),
+    longitude: parseLongitude(longitude),
+    elevation: elevation ? parseElevation(elevation) : undefined,
+    label: labelInput.trim() || undefined,
+  };
+};
+
+type CityLocationChoice = {
+  readonly location: LocationConfig;
+  readonly city?: GazetteerCity;
+};
+
+const promptManualCity = async (detected: DetectedLocation | null): Promise<LocationConfig> => {
   const city = await text({
     message: 'Enter your city',
     initialValue: detected?.city ?? '',
@@ -102,6 +307,86 @@ export const ensureSetup = async (): Promise<UserConfig> => {
     process.exit(0);
   }
 
+  return { type: 'city', city, country };
+};
+
+export const promptCityLocation = async (
+  detected: DetectedLocation | null = null,
+): Promise<CityLocationChoice> => {
+  // Values are rebuilt on every keystroke so focus jumps back to the best match
+  // instead of sticking to an option from the previous search.
+  const choice = await autocomplete<GazetteerCity | string>({
+    message: 'Search your city',
+    placeholder: 'e.g. Bandung or Hyderabad, Pakistan',
+    initialUserInput: detected?.city ?? '',
+    maxItems: 8,
+    options() {
+      return [
+        ...searchCities(this.userInput).map((city) => ({
+          value: { ...city },
+          label: formatCityLabel(city),
+          hint: city.timezone,
+        })),
+        { value: `manual:${this.userInput}`, label: 'Not listed, enter it manually' },
+      ];
+    },
+    filter: () => true,
+  });
+
+  if (isCancel(choice)) {
+    cancel('Setup cancelled.');
+    process.exit(0);
+  }
+
+  if (typeof choice === 'string') {
+    return { location: await promptManualCity(detected) };
+  }
+
+  return {
+    location: { type: 'city', city: choice.name, country: choice.country },
+    city: choice,
+  };
+};
+
+export const ensureSetup = async (): Promise<UserConfig> => {
+  const existing = getConfig();
+  if (hasSetup(existing)) {
+    return existing;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error('Setup is not complete. Run roza once in a terminal to finish it.');
+  }
+
+  intro('Ramadan CLI Setup');
+
+  const spinner = ora('Detecting location...').start();
+  const detected = await detectLocation();
+
+  if (detected?.city && detected?.country) {
+    spinner.succeed(`Detected: ${detected.city}, ${detected.country}`);
+  } else {
+    spinner.warn('Unable to detect location automatically.');
+  }
+
+  const locationType = await select({
+    message: 'How should we locate prayer times?',
+    options: [
+      { value: 'city', label: 'City + country (Recommended)' },
+      { value: 'coords', label: 'Coordinates', hint: 'Exact latitude/longitude, works offline' },
+    ],
+  });
+
+  if (isCancel(locationType)) {
+    cancel('Setup cancelled.');
+    process.exit(0);
+  }
+
+  const { location, city } =
+    locationType === 'coords'
+      ? { location: await promptCoordsLocation(detected?.city), city: undefined }
+      : await promptCityLocation(detected);
+  const country = location.type === 'city' ? location.country : detected?.country;
+
   if (detected?.timezone) {
     console.log(pc.dim(`Detected timezone: ${detected.timezone}`));
   }
@@ -116,11 +401,16 @@ export const ensureSetup = async (): Promise<UserConfig> => {
     methods = FALLBACK_METHODS;
   }
 
-  const recommendedMethodId = pickRecommendedMethodId(methods, country);
+  const recommendation = recommendMethod({
+    country,
+    countryCode: city?.countryCode,
+    city: location.type === 'city' ? location.city : city?.name,
+  });
+  const recommendedMethodId = pickRecommendedMethodId(methods, recommendation);
 
   const methodChoice = await select({
     message: 'Select calculation method',
-    options: buildMethodOptions(methods, country),
+    options: buildMethodOptions(methods, recommendedMethodId),
     initialValue: recommendedMethodId,
   });
 
@@ -130,13 +420,14 @@ export const ensureSetup = async (): Promise<UserConfig> => {
   }
 
   const methodId = Number(methodChoice);
+  const customMethod =
+    methodId === CUSTOM_METHOD_ID ? await promptCustomMethod(existing.customMethod) : undefined;
 
+  const recommendedSchool = recommendation?.school ?? 0;
   const schoolChoice = await select({
     message: 'Select Asr school',
-    options: [
-      { value: 0, label: 'Shafi (Recommended)', hint: 'Standard Asr timing' },
-      { value: 1, label: 'Hanafi', hint: 'Later Asr timing' },
-    ],
+    options: buildSchoolOptions(recommendedSchool),
+    initialValue: recommendedSchool,
   });
 
   if (isCancel(schoolChoice)) {
@@ -146,11 +437,38 @@ export const ensureSetup = async (): Promise<UserConfig> => {
 
   const school = Number(schoolChoice);
 
-  const timezoneOptions = detected?.timezone
+  const latitude = location.type === 'coords' ? location.latitude : city?.latitude;
+  let highLatitudeRule: HighLatitudeRule | undefined;
+  if (latitude !== undefined && Math.abs(latitude) >= HIGH_LATITUDE_THRESHOLD) {
+    const ruleChoice = await select({
+      message: 'High-latitude rule for Fajr and Isha',
+      options: [
+        {
+          value: 'angle-based',
+          label: 'Angle-based (Recommended)',
+          hint: 'Share of the night based on the twilight angle',
+        },
+        { value: 'one-seventh', label: 'One-seventh of the night' },
+        { value: 'middle-of-night', label: 'Middle of the night' },
+      ],
+    });
+
+    if (isCancel(ruleChoice)) {
+      cancel('Setup cancelled.');
+      process.exit(0);
+    }
+
+    highLatitudeRule = HIGH_LATITUDE_RULES.find((rule) => rule === ruleChoice);
+  }
+
+  const suggestedTimezone = city?.timezone ?? detected?.timezone;
+  const timezoneOptions = suggestedTimezone
     ? [
         {
           value: 'detected',
-          label: `Use detected timezone (${detected.timezone})`,
+          label: city
+            ? `Use ${city.name} timezone (${suggestedTimezone})`
+            : `Use detected timezone (${suggestedTimezone})`,
         },
         { value: 'custom', label: 'Set custom timezone' },
         { value: 'none', label: 'Do not set timezone override' },
@@ -172,7 +490,7 @@ export const ensureSetup = async (): Promise<UserConfig> => {
 
   let timezone: string | undefined;
   if (timezoneChoice === 'detected') {
-    timezone = detected?.timezone;
+    timezone = suggestedTimezone;
   }
 
   if (timezoneChoice === 'custom') {
@@ -189,17 +507,60 @@ export const ensureSetup = async (): Promise<UserConfig> => {
     timezone = timezoneInput;
   }
 
-  const location: LocationConfig = {
-    type: 'city',
-    city,
-    country,
-  };
+  const hijriChoice = await select({
+    message: 'Hijri date adjustment (local moon sighting)',
+    options: [
+      { value: '0', label: 'Follow the calendar (Recommended)' },
+      { value: '-1', label: '1 day behind', hint: 'Ramadan starts a day later' },
+      { value: '-2', label: '2 days behind' },
+      { value: '1', label: '1 day ahead', hint: 'Ramadan starts a day earlier' },
+      { value: '2', label: '2 days ahead' },
+      { value: 'start', label: 'Set announced Ramadan start date' },
+    ],
+  });
+
+  if (isCancel(hijriChoice)) {
+    cancel('Setup cancelled.');
+    process.exit(0);
+  }
+
+  let hijriAdjustment: number | undefined;
+  let ramadanStarts: Record<string, string> | undefined;
+  if (hijriChoice === 'start') {
+    const startInput = await text({
+      message: 'Announced 1 Ramadan date (YYYY-MM-DD)',
+      validate: (value) => {
+        try {
+          parseDateKey(value ?? '');
+          return undefined;
+        } catch (error) {
+          return error instanceof Error ? error.message : 'Invalid date';
+        }
+      },
+    });
+
+    if (isCancel(startInput)) {
+      cancel('Setup cancelled.');
+      process.exit(0);
+    }
+
+    ramadanStarts = { [getHijriYear(startInput)]: startInput };
+  } else if (hijriChoice !== '0') {
+    hijriAdjustment = Number(hijriChoice);
+  }
 
   const updated = setConfig({
     location,
+    coordinates: city
+      ? { latitude: city.latitude, longitude: city.longitude, timezone: city.timezone }
+      : undefined,
     method: methodId,
+    customMethod,
     school,
+    highLatitudeRule,
     timezone,
+    hijriAdjustment,
+    ramadanStarts,
   });
 
   outro('Setup complete.');
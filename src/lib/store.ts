@@ -1,6 +1,20 @@
 import Conf from 'conf';
+import path from 'node:path';
 import { z } from 'zod';
 
+import { appendAuditEntries, type AttendanceChange, type AuditEntry } from './audit.js';
+import {
+  findBackup,
+  hasBackupFromToday,
+  listBackups,
+  readBackup,
+  writeBackup,
+  type BackupInfo,
+  type BackupReason,
+} from './backup.js';
+import { HIJRI_CALENDARS } from './hijri.js';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, migrateStoreData } from './migrations.js';
+
 const CityLocationSchema = z.object({
   type: z.literal('city'),
   city: z.string().min(1),
@@ -12,17 +26,103 @@ const AddressLocationSchema = z.object({
   address: z.string().min(1),
 });
 
-const LocationSchema = z.union([CityLocationSchema, AddressLocationSchema]);
+const CoordsLocationSchema = z.object({
+  type: z.literal('coords'),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  elevation: z.number().optional(),
+  label: z.string().min(1).optional(),
+});
+
+export const LocationSchema = z.union([
+  CityLocationSchema,
+  AddressLocationSchema,
+  CoordsLocationSchema,
+]);
+
+const CoordinatesSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  timezone: z.string().optional(),
+});
+
+export const TUNE_KEYS = [
+  'Imsak',
+  'Fajr',
+  'Sunrise',
+  'Dhuhr',
+  'Asr',
+  'Maghrib',
+  'Sunset',
+  'Isha',
+  'Midnight',
+] as const;
+export type TuneKey = (typeof TUNE_KEYS)[number];
+
+export const MIDNIGHT_MODES = ['standard', 'jafari'] as const;
+
+export const HIGH_LATITUDE_RULES = ['angle-based', 'middle-of-night', 'one-seventh'] as const;
+
+// Why a Ramadan fast was missed. `chronic` (an illness or age that rules out
+// fasting for good) is paid with fidyah; every other reason is made up.
+export const FAST_EXEMPTION_REASONS = [
+  'travel',
+  'illness',
+  'menstruation',
+  'pregnancy',
+  'nursing',
+  'chronic',
+] as const;
+
+export const NOTIFY_EVENTS = [
+  'Imsak',
+  'Fajr',
+  'Sunrise',
+  'Dhuhr',
+  'Asr',
+  'Maghrib',
+  'Isha',
+] as const;
+
+const TuneSchema = z.partialRecord(z.enum(TUNE_KEYS), z.number().int().min(-60).max(60));
+
+const CustomMethodSchema = z.object({
+  fajrAngle: z.number().min(0).max(30),
+  ishaAngle: z.number().min(0).max(30).optional(),
+  ishaMinutes: z.number().int().min(0).max(180).optional(),
+  maghribMinutes: z.number().int().min(0).max(60).optional(),
+  tune: TuneSchema.optional(),
+  midnightMode: z.enum(MIDNIGHT_MODES).optional(),
+});
+
+const NotificationSettingsSchema = z.object({
+  events: z.array(z.enum(NOTIFY_EVENTS)),
+  // Extra reminders, in minutes before the event starts.
+  before: z.partialRecord(z.enum(NOTIFY_EVENTS), z.number().int().min(1).max(180)).optional(),
+});
 
 const UserConfigSchema = z.object({
   location: LocationSchema.optional(),
+  coordinates: CoordinatesSchema.optional(),
   method: z.number().int().optional(),
   school: z.number().int().optional(),
   timezone: z.string().optional(),
+  hijriCalendar: z.enum(HIJRI_CALENDARS).optional(),
+  hijriAdjustment: z.number().int().min(-2).max(2).optional(),
+  ramadanStarts: z.record(z.string(), z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).optional(),
+  customMethod: CustomMethodSchema.optional(),
+  highLatitudeRule: z.enum(HIGH_LATITUDE_RULES).optional(),
+  notifications: NotificationSettingsSchema.optional(),
 });
 
 export type UserConfig = z.infer<typeof UserConfigSchema>;
 export type LocationConfig = z.infer<typeof LocationSchema>;
+export type Coordinates = z.infer<typeof CoordinatesSchema>;
+export type CustomMethod = z.infer<typeof CustomMethodSchema>;
+export type MidnightMode = (typeof MIDNIGHT_MODES)[number];
+export type HighLatitudeRule = (typeof HIGH_LATITUDE_RULES)[number];
+export type NotifyEvent = (typeof NOTIFY_EVENTS)[number];
+export type NotificationSettings = z.infer<typeof NotificationSettingsSchema>;
 
 export const PRAYERS = ['Fajr', 'Dhuhr', 'Asr', 'Maghrib', 'Isha'] as const;
 export type PrayerName = (typeof PRAYERS)[number];
@@ -42,59 +142,449 @@ const DayAttendanceSchema = z.object({
   updatedAt: z.string(),
 });
 
+const DateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const PrayerCountsSchema = z.partialRecord(z.enum(PRAYERS), z.number().int().min(0));
+
+const QadaLedgerSchema = z.object({
+  // Prayers owed from before tracking started, entered by the user.
+  startingBalance: PrayerCountsSchema.optional(),
+  // Make-up prayers prayed, per day.
+  madeUp: z.record(DateKeySchema, PrayerCountsSchema).optional(),
+});
+
+const FastLedgerSchema = z.object({
+  // Reasons for missed Ramadan fasts, by Ramadan date.
+  exemptions: z.record(DateKeySchema, z.enum(FAST_EXEMPTION_REASONS)).optional(),
+  // Dates of make-up fasts. They pay off the oldest owed Ramadan first.
+  makeups: z.array(DateKeySchema).optional(),
+  fidyah: z
+    .object({
+      rate: z.number().min(0),
+      currency: z.string().min(1),
+      // Also charge for owed days still not made up when the next Ramadan starts.
+      late: z.boolean().optional(),
+    })
+    .optional(),
+});
+
+// Ledgers kept next to attendance. Unlike the config they are user data, so
+// they survive `import --merge --with-config`.
+const LedgersSchema = z.object({
+  qada: QadaLedgerSchema.optional(),
+  fasts: FastLedgerSchema.optional(),
+});
+
 const StoreSchema = UserConfigSchema.extend({
+  schemaVersion: z.number().int().min(0).optional(),
   attendance: z.record(z.string(), DayAttendanceSchema).optional(),
+  ...LedgersSchema.shape,
 });
 
 export type PrayerRecord = z.infer<typeof PrayerRecordSchema>;
 export type DayAttendance = z.infer<typeof DayAttendanceSchema>;
+export type PrayerCounts = z.infer<typeof PrayerCountsSchema>;
+export type QadaLedger = z.infer<typeof QadaLedgerSchema>;
+export type FastLedger = z.infer<typeof FastLedgerSchema>;
+export type FastExemptionReason = (typeof FAST_EXEMPTION_REASONS)[number];
+export type FidyahSettings = NonNullable<FastLedger['fidyah']>;
 export type StoreState = z.infer<typeof StoreSchema>;
 
 const store = new Conf<StoreState>({
   projectName: 'roza-cli',
 });
 
+let migrationChecked = false;
+
+export const getBackupDir = (): string => path.join(path.dirname(store.path), 'backups');
+
+/**
+ * Snapshots the raw store into the backups directory. Nothing is written for
+ * an empty store.
+ */
+export const backupStore = (reason: BackupReason): BackupInfo | undefined => {
+  const raw = store.store;
+  if (Object.keys(raw).length === 0) {
+    return undefined;
+  }
+  return writeBackup(getBackupDir(), reason, raw);
+};
+
+/**
+ * Takes the first snapshot of the day, if there is none yet.
+ */
+export const ensureDailyBackup = (): void => {
+  if (!hasBackupFromToday(getBackupDir(), 'daily')) {
+    backupStore('daily');
+  }
+};
+
+/**
+ * Upgrades an older store in place on first read, after snapshotting the
+ * original into the backups directory.
+ */
+const migrateStoredData = (): void => {
+  if (migrationChecked) {
+    return;
+  }
+  migrationChecked = true;
+  const raw = store.store;
+  const version = getSchemaVersion(raw);
+  if (version === CURRENT_SCHEMA_VERSION || Object.keys(raw).length === 0) {
+    return;
+  }
+
+  const { data } = migrateStoreData(raw);
+  backupStore('migration');
+  store.store = data as StoreState;
+};
+
+let changeSource = 'roza';
+
+/**
+ * Names the command that the next attendance changes are logged under.
+ */
+export const setChangeSource = (source: string): void => {
+  changeSource = source;
+};
+
+const isSameRecord = (a?: DayAttendance, b?: DayAttendance): boolean =>
+  a !== undefined && b !== undefined
+    ? a.fasted === b.fasted && PRAYERS.every((prayer) => a.prayers[prayer] === b.prayers[prayer])
+    : a === b;
+
+const diffAttendance = (
+  before: Record<string, DayAttendance>,
+  after: Record<string, DayAttendance>,
+): AttendanceChange[] =>
+  [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .sort()
+    .filter((dateKey) => !isSameRecord(before[dateKey], after[dateKey]))
+    .map((dateKey) => ({
+      date: dateKey,
+      before: before[dateKey] ?? null,
+      after: after[dateKey] ?? null,
+    }));
+
+const persistState = (state: StoreState): void => {
+  store.store = { ...state, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
+
+/**
+ * Attendance as stored, for the audit diff. A store that no longer validates
+ * is read as far as it can be repaired, so replacing it is still logged.
+ */
+const readStoredAttendance = (): Record<string, DayAttendance> => {
+  migrateStoredData();
+  const parsed = StoreSchema.safeParse(store.store);
+  if (parsed.success) {
+    return parsed.data.attendance ?? {};
+  }
+  try {
+    return repairImportData(store.store).data.attendance ?? {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Saves the state and appends every changed day to the audit log.
+ */
+const writeState = (state: StoreState): void => {
+  const before = readStoredAttendance();
+  persistState(state);
+  appendAuditEntries(diffAttendance(before, state.attendance ?? {}), changeSource);
+};
+
+export class StoreValidationError extends Error {
+  constructor(
+    readonly issues: ReadonlyArray<string>,
+    readonly backup: BackupInfo | undefined,
+  ) {
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+    const recovery = backup
+      ? `\nA copy was saved as backup ${backup.id}. Repair it with roza import --file "${backup.file}" --repair, or go back with roza backup restore <id>.`
+      : '';
+    super(`Stored data is invalid at ${issues[0]}${more}. Nothing was changed.${recovery}`);
+    this.name = 'StoreValidationError';
+  }
+}
+
+/**
+ * Snapshots a store that failed validation, reusing the latest snapshot when
+ * it already holds the same data so repeated runs do not push out older ones.
+ */
+const backupInvalidStore = (): BackupInfo | undefined => {
+  const raw = store.store;
+  const latest = listBackups(getBackupDir()).find((backup) => backup.reason === 'invalid');
+  if (latest && JSON.stringify(readBackup(latest)) === JSON.stringify(raw)) {
+    return latest;
+  }
+  return backupStore('invalid');
+};
+
+/**
+ * Reads the validated store. Data that fails validation is never read as
+ * empty, or a later write would replace it: it is backed up and reading fails.
+ */
 const readState = (): StoreState => {
+  migrateStoredData();
   const parsed = StoreSchema.safeParse(store.store);
   if (parsed.success) {
     return parsed.data;
   }
-
-  return {};
+  throw new StoreValidationError(parsed.error.issues.map(formatIssue), backupInvalidStore());
 };
 
-export const exportStore = (): StoreState => readState();
+export const exportStore = (): StoreState => ({
+  ...readState(),
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+});
 
-export const importStore = (next: StoreState): void => {
-  const parsed = StoreSchema.safeParse(next);
+export class ImportValidationError extends Error {
+  constructor(readonly issues: ReadonlyArray<string>) {
+    super(
+      `Invalid import data: ${issues.length} ${issues.length === 1 ? 'issue' : 'issues'} found.`,
+    );
+    this.name = 'ImportValidationError';
+  }
+}
+
+const describeIssue = (issue: z.core.$ZodIssue): string =>
+  issue.message.replace(/^Invalid input: /, '');
+
+const formatIssue = (issue: z.core.$ZodIssue): string => {
+  const at = issue.path.length > 0 ? issue.path.map(String).join('.') : '(root)';
+  return `${at}: ${describeIssue(issue)}`;
+};
+
+/**
+ * Validates import data, reporting every issue with its JSON path
+ * (e.g. `attendance.2026-03-02.prayers.Fajr: expected boolean, received string`).
+ */
+export const parseImportData = (value: unknown): StoreState => {
+  const parsed = StoreSchema.safeParse(migrateStoreData(value).data);
   if (!parsed.success) {
-    throw new Error('Invalid import data.');
+    throw new ImportValidationError(parsed.error.issues.map(formatIssue));
   }
-  store.store = parsed.data;
+  return parsed.data;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (value === 1 || value === '1' || value === 'true') return true;
+  if (value === 0 || value === '0' || value === 'false') return false;
+  return undefined;
 };
 
-export const getConfig = (): UserConfig => {
+// Repaired days without a usable timestamp lose every "newest" merge conflict.
+const REPAIRED_UPDATED_AT = new Date(0).toISOString();
+
+const repairDay = (dateKey: string, raw: unknown, fixes: string[]): DayAttendance | undefined => {
+  const at = `attendance.${dateKey}`;
+  if (!isPlainObject(raw)) {
+    fixes.push(`${at}: dropped (expected an object)`);
+    return undefined;
+  }
+
+  const prayers: PrayerRecord = {};
+  if (raw.prayers !== undefined && !isPlainObject(raw.prayers)) {
+    fixes.push(`${at}.prayers: reset (expected an object)`);
+  }
+  const rawPrayers = isPlainObject(raw.prayers) ? raw.prayers : {};
+  for (const prayer of PRAYERS) {
+    const value = rawPrayers[prayer];
+    if (value === undefined) continue;
+    const flag = toBoolean(value);
+    if (flag === undefined) {
+      fixes.push(`${at}.prayers.${prayer}: dropped ${JSON.stringify(value)}`);
+    } else {
+      if (typeof value !== 'boolean') {
+        fixes.push(`${at}.prayers.${prayer}: coerced ${JSON.stringify(value)} to ${flag}`);
+      }
+      prayers[prayer] = flag;
+    }
+  }
+
+  let fasted: boolean | undefined;
+  if (raw.fasted !== undefined) {
+    fasted = toBoolean(raw.fasted);
+    if (fasted === undefined) {
+      fixes.push(`${at}.fasted: dropped ${JSON.stringify(raw.fasted)}`);
+    } else if (typeof raw.fasted !== 'boolean') {
+      fixes.push(`${at}.fasted: coerced ${JSON.stringify(raw.fasted)} to ${fasted}`);
+    }
+  }
+
+  const date = typeof raw.date === 'string' ? raw.date : dateKey;
+  if (typeof raw.date !== 'string') {
+    fixes.push(`${at}.date: set to ${dateKey}`);
+  }
+  const updatedAt = typeof raw.updatedAt === 'string' ? raw.updatedAt : REPAIRED_UPDATED_AT;
+  if (typeof raw.updatedAt !== 'string') {
+    fixes.push(`${at}.updatedAt: set to ${REPAIRED_UPDATED_AT}`);
+  }
+
+  return { date, prayers, fasted, updatedAt };
+};
+
+/**
+ * Salvages what it can from invalid import data: bad config fields and days
+ * are dropped, boolean-like values ("true", 1, "0") are coerced. Each change is
+ * listed in `fixes`.
+ */
+export const repairImportData = (input: unknown): { data: StoreState; fixes: string[] } => {
+  const value = migrateStoreData(input).data;
+  if (!isPlainObject(value)) {
+    throw new ImportValidationError(['(root): expected an object']);
+  }
+
+  const fixes: string[] = [];
+  const config: Record<string, unknown> = {};
+  for (const [key, schema] of Object.entries({
+    ...UserConfigSchema.shape,
+    ...LedgersSchema.shape,
+  })) {
+    if (value[key] === undefined) continue;
+    const parsed = schema.safeParse(value[key]);
+    if (parsed.success) {
+      config[key] = parsed.data;
+    } else {
+      fixes.push(`${key}: dropped (${describeIssue(parsed.error.issues[0])})`);
+    }
+  }
+
+  const attendance: Record<string, DayAttendance> = {};
+  if (value.attendance !== undefined && !isPlainObject(value.attendance)) {
+    fixes.push('attendance: dropped (expected an object)');
+  }
+  const rawAttendance = isPlainObject(value.attendance) ? value.attendance : {};
+  for (const [dateKey, raw] of Object.entries(rawAttendance)) {
+    const day = repairDay(dateKey, raw, fixes);
+    if (day) {
+      attendance[dateKey] = day;
+    }
+  }
+
+  return { data: parseImportData({ ...config, attendance }), fixes };
+};
+
+export const importStore = (next: StoreState): void => {
+  const data = parseImportData(next);
+  backupStore('import');
+  writeState(data);
+};
+
+/**
+ * Stores merged attendance and ledgers. The current config is kept unless an
+ * imported one is passed, which then replaces it.
+ */
+export const applyMergedImport = (
+  attendance: Record<string, DayAttendance>,
+  ledgers: Pick<StoreState, 'qada' | 'fasts'>,
+  config?: UserConfig,
+): void => {
   const state = readState();
-  const { location, method, school, timezone } = state;
-  return { location, method, school, timezone };
+  backupStore('import');
+  writeState({ ...state, ...(config ? pickConfig(config) : {}), attendance, ...ledgers });
+};
+
+const pickConfig = (state: StoreState): UserConfig => {
+  const {
+    location,
+    coordinates,
+    method,
+    school,
+    timezone,
+    hijriCalendar,
+    hijriAdjustment,
+    ramadanStarts,
+    customMethod,
+    highLatitudeRule,
+    notifications,
+  } = state;
+  return {
+    location,
+    coordinates,
+    method,
+    school,
+    timezone,
+    hijriCalendar,
+    hijriAdjustment,
+    ramadanStarts,
+    customMethod,
+    highLatitudeRule,
+    notifications,
+  };
 };
 
+const isSameLocation = (a?: LocationConfig, b?: LocationConfig): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+export const getConfig = (): UserConfig => pickConfig(readState());
+
 export const setConfig = (next: Partial<UserConfig>): UserConfig => {
   const current = readState();
+  const location = next.location ?? current.location;
+  // Coordinates resolved for a previous location must not leak into a new one.
+  const coordinates =
+    next.coordinates ??
+    (isSameLocation(location, current.location) ? current.coordinates : undefined);
   const merged: StoreState = {
     ...current,
     ...next,
-    location: next.location ?? current.location,
+    location,
+    coordinates,
   };
-  store.store = merged;
-  const { location, method, school, timezone } = merged;
-  return { location, method, school, timezone };
+  writeState(merged);
+  return pickConfig(merged);
 };
 
+export const getConfigDir = (): string => path.dirname(store.path);
+
 export const clearConfig = (): void => {
+  backupStore('reset');
+  appendAuditEntries(diffAttendance(readStoredAttendance(), {}), changeSource);
   store.clear();
 };
 
+/**
+ * Replaces the store with a snapshot, after snapshotting the current state so
+ * the restore itself can be reverted.
+ */
+export const restoreBackup = (id: string): { backup: BackupInfo; state: StoreState } => {
+  const backup = findBackup(getBackupDir(), id);
+  const state = parseImportData(readBackup(backup));
+  backupStore('restore');
+  writeState(state);
+  return { backup, state };
+};
+
+/**
+ * Restores each entry's "before" record, newest entry first. Every revert is
+ * logged as its own `undo` entry, even when the day already matches.
+ */
+export const revertAttendanceChanges = (entries: ReadonlyArray<AuditEntry>): void => {
+  for (const entry of entries) {
+    const state = readState();
+    const attendance = { ...(state.attendance ?? {}) };
+    const current = attendance[entry.date] ?? null;
+    if (entry.before) {
+      attendance[entry.date] = DayAttendanceSchema.parse(entry.before);
+    } else {
+      delete attendance[entry.date];
+    }
+    persistState({ ...state, attendance });
+    appendAuditEntries(
+      [{ date: entry.date, before: current, after: entry.before, revertOf: entry.id }],
+      'undo',
+    );
+  }
+};
+
 export const getAttendance = (dateKey: string): DayAttendance | undefined => {
   const state = readState();
   return state.attendance?.[dateKey];
@@ -128,10 +618,103 @@ export const setAttendance = (
     [dateKey]: nextRecord,
   };
 
-  store.store = {
+  writeState({
     ...state,
     attendance: nextAttendance,
-  };
+  });
 
   return nextRecord;
 };
+
+export const getQadaLedger = (): QadaLedger => readState().qada ?? {};
+
+export const setQadaStartingBalance = (counts: PrayerCounts): QadaLedger => {
+  const state = readState();
+  const qada: QadaLedger = { ...state.qada, startingBalance: counts };
+  writeState({ ...state, qada });
+  return qada;
+};
+
+const updateQadaMakeups = (
+  dateKey: string,
+  update: (count: number, prayer: PrayerName) => number,
+): QadaLedger => {
+  const state = readState();
+  const existing = state.qada?.madeUp?.[dateKey] ?? {};
+  const day: PrayerCounts = Object.fromEntries(
+    PRAYERS.map((prayer) => [prayer, update(existing[prayer] ?? 0, prayer)]).filter(
+      ([, count]) => count !== 0,
+    ),
+  );
+  const madeUp = Object.fromEntries(
+    Object.entries({ ...state.qada?.madeUp, [dateKey]: day }).filter(
+      ([, counts]) => Object.keys(counts).length > 0,
+    ),
+  );
+  const qada: QadaLedger = { ...state.qada, madeUp };
+  writeState({ ...state, qada });
+  return qada;
+};
+
+/**
+ * Adds make-up prayers to a day's tally.
+ */
+export const addQadaMakeups = (dateKey: string, counts: PrayerCounts): QadaLedger =>
+  updateQadaMakeups(dateKey, (count, prayer) => count + (counts[prayer] ?? 0));
+
+/**
+ * Takes make-up prayers logged by mistake off a day's tally. Fails without
+ * changing anything when the day has fewer than that logged.
+ */
+export const removeQadaMakeups = (dateKey: string, counts: PrayerCounts): QadaLedger => {
+  const existing = getQadaLedger().madeUp?.[dateKey] ?? {};
+  const short = PRAYERS.find((prayer) => (counts[prayer] ?? 0) > (existing[prayer] ?? 0));
+  if (short) {
+    throw new Error(`Only ${existing[short] ?? 0} ${short} make-ups logged on ${dateKey}`);
+  }
+  return updateQadaMakeups(dateKey, (count, prayer) => count - (counts[prayer] ?? 0));
+};
+
+export const getFastLedger = (): FastLedger => readState().fasts ?? {};
+
+const updateFastLedger = (update: (ledger: FastLedger) => FastLedger): FastLedger => {
+  const state = readState();
+  const fasts = update(state.fasts ?? {});
+  writeState({ ...state, fasts });
+  return fasts;
+};
+
+/**
+ * Records why the given Ramadan days were missed, or clears the reason when
+ * `reason` is undefined.
+ */
+export const setFastExemptions = (
+  dateKeys: ReadonlyArray<string>,
+  reason: FastExemptionReason | undefined,
+): FastLedger =>
+  updateFastLedger((ledger) => {
+    const exemptions = { ...ledger.exemptions };
+    for (const dateKey of dateKeys) {
+      if (reason) {
+        exemptions[dateKey] = reason;
+      } else {
+        delete exemptions[dateKey];
+      }
+    }
+    return { ...ledger, exemptions };
+  });
+
+export const addFastMakeup = (dateKey: string): FastLedger =>
+  updateFastLedger((ledger) => ({
+    ...ledger,
+    makeups: [...new Set([...(ledger.makeups ?? []), dateKey])].sort(),
+  }));
+
+export const removeFastMakeup = (dateKey: string): FastLedger =>
+  updateFastLedger((ledger) => ({
+    ...ledger,
+    makeups: (ledger.makeups ?? []).filter((makeup) => makeup !== dateKey),
+  }));
+
+export const setFidyahSettings = (fidyah: FidyahSettings): FastLedger =>
+  updateFastLedger((ledger) => ({ ...ledger, fidyah }));
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DayAttendance } from './store.js';
+import { calcShawwalProgress, calcVoluntaryFasts } from './sunnah.js';
+
+// Umm al-Qura: Shawwal 1446 began on 2025-03-30 (Eid), a Sunday.
+const fast = (date: string): DayAttendance => ({
+  date,
+  prayers: {},
+  fasted: true,
+  updatedAt: '2025-04-01T00:00:00.000Z',
+});
+
+const ROWS = ['2025-03-15', '2025-03-31', '2025-04-01', '2025-04-07'].map(fast);
+
+describe('calcVoluntaryFasts', () => {
+  it('skips Ramadan days and logged make-ups', () => {
+    const summary = calcVoluntaryFasts(ROWS, { makeups: ['2025-04-07'] });
+    expect(summary.total).toBe(2);
+    expect(summary.byKind.shawwal).toBe(2);
+    expect(summary.byKind['monday-thursday']).toBe(1);
+  });
+});
+
+describe('calcShawwalProgress', () => {
+  it('does not count make-ups towards the six', () => {
+    expect(calcShawwalProgress(ROWS, {}, 1446).done).toBe(3);
+    expect(calcShawwalProgress(ROWS, { makeups: ['2025-04-01'] }, 1446).done).toBe(2);
+  });
+});
@@ -0,0 +1,199 @@
+import { addDays } from '../utils/ramadan-utils.js';
+import {
+  parseGregorianKey,
+  resolveHijriMonthRange,
+  resolveHijriParts,
+  type HijriParts,
+  type HijriSettings,
+} from './hijri.js';
+import type { DayAttendance, FastLedger } from './store.js';
+
+export const SUNNAH_FAST_KINDS = [
+  'monday-thursday',
+  'white-days',
+  'arafah',
+  'tasua',
+  'ashura',
+  'shawwal',
+] as const;
+export type SunnahFastKind = (typeof SUNNAH_FAST_KINDS)[number];
+
+export const SUNNAH_FAST_LABELS: Record<SunnahFastKind, string> = {
+  'monday-thursday': 'Monday/Thursday',
+  'white-days': 'White Days',
+  arafah: 'Day of Arafah',
+  tasua: "Tasu'a",
+  ashura: 'Ashura',
+  shawwal: 'Six of Shawwal',
+};
+
+// The Six of Shawwal are any six days after Eid; more fasts in Shawwal do not add to them.
+export const SHAWWAL_FAST_TARGET = 6;
+
+export type SunnahFastDay = {
+  date: string;
+  hijri: HijriParts;
+  kinds: SunnahFastKind[];
+};
+
+const getWeekday = (dateKey: string): number => {
+  const { year, month, day } = parseGregorianKey(dateKey);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+/**
+ * Names the day when fasting on it is not allowed: both Eids and the days of
+ * Tashreeq after Eid al-Adha.
+ */
+export const getForbiddenFastDay = (hijri: HijriParts): string | null => {
+  if (hijri.month === 10 && hijri.day === 1) {
+    return 'Eid al-Fitr';
+  }
+  if (hijri.month === 12 && hijri.day === 10) {
+    return 'Eid al-Adha';
+  }
+  if (hijri.month === 12 && hijri.day >= 11 && hijri.day <= 13) {
+    return 'one of the days of Tashreeq';
+  }
+  return null;
+};
+
+/**
+ * Lists why a day is a recommended voluntary fast. Ramadan days and days when
+ * fasting is not allowed have none.
+ */
+export const getSunnahFastKinds = (dateKey: string, settings?: HijriSettings): SunnahFastKind[] => {
+  const hijri = resolveHijriParts(dateKey, settings);
+  if (hijri.month === 9 || getForbiddenFastDay(hijri)) {
+    return [];
+  }
+
+  const kinds: SunnahFastKind[] = [];
+  const weekday = getWeekday(dateKey);
+  if (weekday === 1 || weekday === 4) {
+    kinds.push('monday-thursday');
+  }
+  if (hijri.day >= 13 && hijri.day <= 15) {
+    kinds.push('white-days');
+  }
+  if (hijri.month === 12 && hijri.day === 9) {
+    kinds.push('arafah');
+  }
+  if (hijri.month === 1 && hijri.day === 9) {
+    kinds.push('tasua');
+  }
+  if (hijri.month === 1 && hijri.day === 10) {
+    kinds.push('ashura');
+  }
+  if (hijri.month === 10) {
+    kinds.push('shawwal');
+  }
+  return kinds;
+};
+
+/**
+ * Recommended fasting days from `fromKey` onwards, `days` days ahead.
+ */
+export const findSunnahFastDays = (
+  fromKey: string,
+  days: number,
+  settings?: HijriSettings,
+): SunnahFastDay[] =>
+  Array.from({ length: days }, (_, idx) => addDays(fromKey, idx)).flatMap((dateKey) => {
+    const kinds = getSunnahFastKinds(dateKey, settings);
+    return kinds.length > 0
+      ? [{ date: dateKey, hijri: resolveHijriParts(dateKey, settings), kinds }]
+      : [];
+  });
+
+export const describeSunnahKinds = (kinds: ReadonlyArray<SunnahFastKind>): string =>
+  kinds.map((kind) => SUNNAH_FAST_LABELS[kind]).join(', ');
+
+export type VoluntaryFastSummary = {
+  total: number;
+  // Voluntary fasts that fell on a recommended day.
+  recommended: number;
+  byKind: Record<SunnahFastKind, number>;
+};
+
+export type ShawwalProgress = {
+  hijriYear: number;
+  done: number;
+  target: number;
+  // Last day of Shawwal, the last chance to complete the six.
+  until: string;
+};
+
+// Days logged as make-ups of missed Ramadan fasts are obligatory, not voluntary.
+const listVoluntaryFasts = (
+  rows: ReadonlyArray<DayAttendance>,
+  ledger: FastLedger,
+): DayAttendance[] => {
+  const makeups = new Set(ledger.makeups);
+  return rows.filter((row) => row.fasted === true && !makeups.has(row.date));
+};
+
+/**
+ * How many of the Six of Shawwal were fasted in the given Hijri year, capped at six.
+ */
+export const calcShawwalProgress = (
+  rows: ReadonlyArray<DayAttendance>,
+  ledger: FastLedger,
+  hijriYear: number,
+  settings?: HijriSettings,
+): ShawwalProgress => {
+  const { start, days } = resolveHijriMonthRange(hijriYear, 10, settings);
+  const until = addDays(start, days - 1);
+  const fasted = listVoluntaryFasts(rows, ledger).filter(
+    (row) => row.date > start && row.date <= until,
+  ).length;
+  return {
+    hijriYear,
+    done: Math.min(fasted, SHAWWAL_FAST_TARGET),
+    target: SHAWWAL_FAST_TARGET,
+    until,
+  };
+};
+
+/**
+ * Counts fasts logged outside Ramadan, other than make-ups, split by the
+ * recommended days they fell on. Only the first six fasts of each Shawwal
+ * count as the Six of Shawwal.
+ */
+export const calcVoluntaryFasts = (
+  rows: ReadonlyArray<DayAttendance>,
+  ledger: FastLedger,
+  settings?: HijriSettings,
+): VoluntaryFastSummary => {
+  const byKind = Object.fromEntries(SUNNAH_FAST_KINDS.map((kind) => [kind, 0])) as Record<
+    SunnahFastKind,
+    number
+  >;
+  const shawwalByYear = new Map<number, number>();
+  let total = 0;
+  let recommended = 0;
+  const fasts = listVoluntaryFasts(rows, ledger).sort((a, b) => a.date.localeCompare(b.date));
+  for (const row of fasts) {
+    const hijri = resolveHijriParts(row.date, settings);
+    if (hijri.month === 9) {
+      continue;
+    }
+    total += 1;
+    let kinds = getSunnahFastKinds(row.date, settings);
+    if (kinds.includes('shawwal')) {
+      const count = shawwalByYear.get(hijri.year) ?? 0;
+      if (count >= SHAWWAL_FAST_TARGET) {
+        kinds = kinds.filter((kind) => kind !== 'shawwal');
+      } else {
+        shawwalByYear.set(hijri.year, count + 1);
+      }
+    }
+    if (kinds.length > 0) {
+      recommended += 1;
+    }
+    kinds.forEach((kind) => {
+      byKind[kind] += 1;
+    });
+  }
+  return { total, recommended, byKind };
+};
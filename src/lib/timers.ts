@@ -0,0 +1,329 @@
+import { spawnSync } from 'node:child_process';
+import { mkdirSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { formatDateKey } from '../utils/date-utils.js';
+import { isRamadanDate, toDateKeyFromGregorian, toHijriSettings } from '../utils/ramadan-utils.js';
+import { getNowInTimezone } from '../utils/prayer-status.js';
+import { buildDailyAlerts, DEFAULT_NOTIFICATION_SETTINGS } from './notifier.js';
+import { getTimezoneOffsetHours } from './prayer-calc.js';
+import type { UserConfig } from './store.js';
+import { createTimingsContext, resolveDateRangeCalendar } from './timings.js';
+
+export const TIMER_BACKENDS = ['systemd', 'cron'] as const;
+export type TimerBackend = (typeof TIMER_BACKENDS)[number];
+
+// Timers cover a little more than a week so the weekly regenerate always overlaps.
+export const DEFAULT_TIMER_DAYS = 8;
+
+export interface TimerEntry {
+  // Alert key passed to `roza notify send`, e.g. "Fajr-0" or "Maghrib-10".
+  readonly key: string;
+  readonly dateKey: string;
+  readonly time: string;
+  readonly timezone: string;
+}
+
+export interface TimerInstallResult {
+  readonly entries: number;
+  readonly target: string;
+  readonly warning?: string;
+}
+
+const UNIT_PREFIX = 'roza-';
+const UNIT_PATTERN = /^roza-(remind|regenerate)[-@.]/;
+const CRON_BEGIN = '# BEGIN roza timers';
+const CRON_END = '# END roza timers';
+
+const formatMinutes = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Lists the upcoming alerts for the configured location, skipping any that
+ * have already passed today.
+ */
+export const collectTimerEntries = async (
+  config: UserConfig,
+  days: number,
+): Promise<TimerEntry[]> => {
+  if (!config.location) {
+    throw new Error('Location is required. Run schedule first.');
+  }
+  const context = createTimingsContext(config.location, config);
+  const todayKey = formatDateKey(new Date(), config.timezone ?? config.coordinates?.timezone);
+  const calendar = await resolveDateRangeCalendar(context, todayKey, days);
+  const settings = config.notifications ?? DEFAULT_NOTIFICATION_SETTINGS;
+
+  return calendar.flatMap((item) => {
+    const dateKey = toDateKeyFromGregorian(item.date.gregorian.date);
+    const timezone = config.timezone ?? item.meta.timezone;
+    const now = dateKey === todayKey ? getNowInTimezone(timezone).minutes : -1;
+    const isRamadan = isRamadanDate(dateKey, toHijriSettings(config));
+    return buildDailyAlerts(item.timings, settings, isRamadan)
+      .filter((alert) => alert.minutes >= 0 && alert.minutes > now)
+      .map((alert) => ({
+        key: alert.key,
+        dateKey,
+        time: formatMinutes(alert.minutes),
+        timezone,
+      }));
+  });
+};
+
+// The command timers run: this node binary and this CLI entry point.
+const getCliCommand = (): string[] => [process.execPath, path.resolve(process.argv[1])];
+
+const getSystemdUserDir = (): string =>
+  path.join(process.env.XDG_CONFIG_HOME ?? path.join(os.homedir(), '.config'), 'systemd', 'user');
+
+const quoteSystemd = (value: string): string =>
+  `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/%/g, '%%')}"`;
+
+const quoteShell = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+
+const toUnitSuffix = (key: string): string => key.toLowerCase();
+
+const regenerateArgs = (backend: TimerBackend, days: number): string[] => [
+  'schedule',
+  'install-timers',
+  `--${backend}`,
+  '--days',
+  String(days),
+];
+
+/**
+ * Builds the user units: one timer per alert key listing every upcoming
+ * occurrence, a templated reminder service, and a weekly regenerate pair.
+ */
+export const buildSystemdUnits = (
+  entries: ReadonlyArray<TimerEntry>,
+  days: number,
+): Map<string, string> => {
+  const command = getCliCommand().map(quoteSystemd).join(' ');
+  const units = new Map<string, string>();
+
+  units.set(
+    `${UNIT_PREFIX}remind@.service`,
+    [
+      '[Unit]',
+      'Description=roza prayer reminder (%i)',
+      '',
+      '[Service]',
+      'Type=oneshot',
+      `ExecStart=${command} notify send %i`,
+      '',
+    ].join('\n'),
+  );
+
+  const byKey = new Map<string, TimerEntry[]>();
+  for (const entry of entries) {
+    byKey.set(entry.key, [...(byKey.get(entry.key) ?? []), entry]);
+  }
+  for (const [key, items] of byKey) {
+    units.set(
+      `${UNIT_PREFIX}remind-${toUnitSuffix(key)}.timer`,
+      [
+        '[Unit]',
+        `Description=roza ${key} reminder`,
+        '',
+        '[Timer]',
+        ...items.map((item) => `OnCalendar=${item.dateKey} ${item.time}:00 ${item.timezone}`),
+        `Unit=${UNIT_PREFIX}remind@${key}.service`,
+        '',
+        '[Install]',
+        'WantedBy=timers.target',
+        '',
+      ].join('\n'),
+    );
+  }
+
+  units.set(
+    `${UNIT_PREFIX}regenerate.service`,
+    [
+      '[Unit]',
+      'Description=Refresh roza prayer reminder timers',
+      '',
+      '[Service]',
+      'Type=oneshot',
+      `ExecStart=${command} ${regenerateArgs('systemd', days).join(' ')}`,
+      '',
+    ].join('\n'),
+  );
+  units.set(
+    `${UNIT_PREFIX}regenerate.timer`,
+    [
+      '[Unit]',
+      'Description=Refresh roza prayer reminder timers weekly',
+      '',
+      '[Timer]',
+      'OnCalendar=weekly',
+      'Persistent=true',
+      '',
+      '[Install]',
+      'WantedBy=timers.target',
+      '',
+    ].join('\n'),
+  );
+  return units;
+};
+
+const runSystemctl = (args: string[]): string | undefined => {
+  const result = spawnSync('systemctl', ['--user', ...args], { encoding: 'utf8' });
+  if (result.error) {
+    return result.error.message;
+  }
+  return result.status === 0 ? undefined : result.stderr.trim() || `exit code ${result.status}`;
+};
+
+const listInstalledUnits = (dir: string): string[] => {
+  try {
+    return readdirSync(dir).filter((name) => UNIT_PATTERN.test(name));
+  } catch {
+    return [];
+  }
+};
+
+export const installSystemdTimers = (units: Map<string, string>): TimerInstallResult => {
+  const dir = getSystemdUserDir();
+  const timers = [...units.keys()].filter((name) => name.endsWith('.timer'));
+  const stale = listInstalledUnits(dir).filter((name) => !units.has(name));
+  const staleTimers = stale.filter((name) => name.endsWith('.timer'));
+  const warnings: string[] = [];
+
+  if (staleTimers.length > 0) {
+    const error = runSystemctl(['disable', '--now', ...staleTimers]);
+    if (error) warnings.push(error);
+  }
+  stale.forEach((name) => rmSync(path.join(dir, name), { force: true }));
+
+  mkdirSync(dir, { recursive: true });
+  for (const [name, content] of units) {
+    writeFileSync(path.join(dir, name), content);
+  }
+
+  const error = runSystemctl(['daemon-reload']) ?? runSystemctl(['enable', '--now', ...timers]);
+  if (error) warnings.push(error);
+
+  return {
+    entries: timers.length - 1,
+    target: dir,
+    warning:
+      warnings.length > 0
+        ? `systemctl failed (${warnings.join('; ')}). Run: systemctl --user daemon-reload && systemctl --user enable --now ${timers.join(' ')}`
+        : undefined,
+  };
+};
+
+export const uninstallSystemdTimers = (): TimerInstallResult => {
+  const dir = getSystemdUserDir();
+  const installed = listInstalledUnits(dir);
+  const timers = installed.filter((name) => name.endsWith('.timer'));
+  const warnings: string[] = [];
+  if (timers.length > 0) {
+    const error = runSystemctl(['disable', '--now', ...timers]);
+    if (error) warnings.push(error);
+  }
+  installed.forEach((name) => rmSync(path.join(dir, name), { force: true }));
+  if (installed.length > 0) {
+    const error = runSystemctl(['daemon-reload']);
+    if (error) warnings.push(error);
+  }
+  return {
+    entries: installed.length,
+    target: dir,
+    warning: warnings.length > 0 ? `systemctl failed (${warnings.join('; ')})` : undefined,
+  };
+};
+
+/**
+ * Converts a wall-clock time in the prayer timezone to the system's local
+ * time, since cron has no per-entry timezone.
+ */
+const toSystemLocal = (entry: TimerEntry): Date => {
+  const [year, month, day] = entry.dateKey.split('-').map((part) => Number(part));
+  const [hour, minute] = entry.time.split(':').map((part) => Number(part));
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getTimezoneOffsetHours(entry.timezone, new Date(wallClock));
+  return new Date(wallClock - offset * 3_600_000);
+};
+
+/**
+ * Builds the crontab block. notify-send needs the session bus, which cron
+ * does not provide, so each line points at the user's bus socket. Cron has no
+ * year field, so each line passes its date and is skipped on any other day.
+ */
+export const buildCrontabBlock = (entries: ReadonlyArray<TimerEntry>, days: number): string => {
+  const command = getCliCommand().map(quoteShell).join(' ').replace(/%/g, '\\%');
+  const uid = process.getuid?.() ?? 1000;
+  const bus = `DBUS_SESSION_BUS_ADDRESS=unix:path=/run/user/${uid}/bus`;
+  const lines = entries.map((entry) => {
+    const at = toSystemLocal(entry);
+    const schedule = `${at.getMinutes()} ${at.getHours()} ${at.getDate()} ${at.getMonth() + 1} *`;
+    return `${schedule} ${bus} ${command} notify send ${entry.key} --date ${entry.dateKey} >/dev/null 2>&1`;
+  });
+  return [
+    CRON_BEGIN,
+    ...lines,
+    `0 3 * * 0 ${command} ${regenerateArgs('cron', days).join(' ')} >/dev/null 2>&1`,
+    CRON_END,
+  ].join('\n');
+};
+
+const CRONTAB_MISSING = 'crontab was not found. Install cron or use --systemd.';
+
+// Undefined when the `crontab` binary is missing.
+const readCrontab = (): string | undefined => {
+  const result = spawnSync('crontab', ['-l'], { encoding: 'utf8' });
+  if (result.error) {
+    return undefined;
+  }
+  // `crontab -l` exits non-zero when the user has no crontab yet.
+  return result.status === 0 ? result.stdout : '';
+};
+
+const writeCrontab = (content: string): void => {
+  const result = spawnSync('crontab', ['-'], { input: content, encoding: 'utf8' });
+  if (result.error || result.status !== 0) {
+    throw new Error(`Failed to write crontab: ${result.error?.message ?? result.stderr.trim()}`);
+  }
+};
+
+const stripCronBlock = (crontab: string): string => {
+  const lines = crontab.split('\n');
+  const start = lines.indexOf(CRON_BEGIN);
+  const end = lines.indexOf(CRON_END);
+  if (start === -1 || end < start) {
+    return crontab;
+  }
+  return [...lines.slice(0, start), ...lines.slice(end + 1)].join('\n');
+};
+
+export const installCronTimers = (block: string, entries: number): TimerInstallResult => {
+  const crontab = readCrontab();
+  if (crontab === undefined) {
+    throw new Error(CRONTAB_MISSING);
+  }
+  const current = stripCronBlock(crontab).trimEnd();
+  writeCrontab(`${current ? `${current}\n` : ''}${block}\n`);
+  return { entries, target: 'crontab' };
+};
+
+/**
+ * Removes the roza block from the crontab. Unless `requireCrontab` is set, a
+ * host without `crontab` has nothing to remove.
+ */
+export const uninstallCronTimers = (requireCrontab = true): TimerInstallResult => {
+  const current = readCrontab();
+  if (current === undefined) {
+    if (requireCrontab) {
+      throw new Error(CRONTAB_MISSING);
+    }
+    return { entries: 0, target: 'crontab' };
+  }
+  const next = stripCronBlock(current);
+  if (next !== current) {
+    writeCrontab(next.trimEnd() ? `${next.trimEnd()}\n` : '');
+  }
+  return { entries: next === current ? 0 : 1, target: 'crontab' };
+};
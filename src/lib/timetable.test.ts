@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseTimetableCsv } from './timetable.js';
+
+const HEADER = 'Date,Fajr,Sunrise,Zuhr,Asr,Maghrib,Isha,Fajr Jamaat,Isha Iqamah,Notes';
+
+describe('parseTimetableCsv', () => {
+  it('reads start times, iqamah times and column aliases', () => {
+    const days = parseTimetableCsv(
+      [HEADER, '01/03/2026,5:03,6:40,12:15,3:20 pm,5:52 pm,7:20 pm,5:30,19:45,Ramadan 11'].join(
+        '\n',
+      ),
+    );
+    expect(days).toEqual({
+      '2026-03-01': {
+        Fajr: '05:03',
+        Sunrise: '06:40',
+        Dhuhr: '12:15',
+        Asr: '15:20',
+        Maghrib: '17:52',
+        Isha: '19:20',
+        iqamah: { Fajr: '05:30', Isha: '19:45' },
+      },
+    });
+  });
+
+  it('leaves out empty optional cells', () => {
+    const days = parseTimetableCsv(
+      'date,fajr,dhuhr,asr,maghrib,isha,fajr iqamah\n2026-03-02,05:01,12:15,15:21,17:54,19:22,',
+    );
+    expect(days['2026-03-02']).toEqual({
+      Fajr: '05:01',
+      Dhuhr: '12:15',
+      Asr: '15:21',
+      Maghrib: '17:54',
+      Isha: '19:22',
+    });
+  });
+
+  it('rejects a header without a date or a prayer column', () => {
+    expect(() => parseTimetableCsv('')).toThrow('Timetable file is empty.');
+    expect(() => parseTimetableCsv('fajr,dhuhr,asr,maghrib,isha')).toThrow(
+      'Timetable needs a "date" column.',
+    );
+    expect(() => parseTimetableCsv('date,fajr,dhuhr,asr,maghrib')).toThrow(
+      'Timetable is missing columns: Isha.',
+    );
+    expect(() => parseTimetableCsv('date,fajr,dhuhr,asr,maghrib,isha')).toThrow(
+      'Timetable has no rows.',
+    );
+  });
+
+  it('reports every bad row together', () => {
+    const text = [
+      'date,fajr,dhuhr,asr,maghrib,isha',
+      '2026-02-30,05:03,12:15,15:20,17:52,19:20',
+      '2026-03-01,after dawn,12:15,15:20,17:52,19:20',
+      '2026-03-02,05:01,12:15,15:21,17:54,19:22',
+      '2026-03-02,05:01,12:15,15:21,17:54,19:22',
+    ].join('\n');
+    expect(() => parseTimetableCsv(text)).toThrow(
+      [
+        'Invalid timetable:',
+        'Row 2: date: Not a calendar date',
+        'Row 3: Fajr: Expected a 24-hour time like 05:03',
+        'Row 5: date: 2026-03-02 appears more than once',
+      ].join('\n'),
+    );
+  });
+
+  it('shows the first five problems and counts the rest', () => {
+    const rows = Array.from({ length: 7 }, (_, idx) => `2026-03-0${idx + 1},5,12,15,17,19`);
+    const error = (() => {
+      try {
+        parseTimetableCsv(['date,fajr,dhuhr,asr,maghrib,isha', ...rows].join('\n'));
+      } catch (caught) {
+        return caught as Error;
+      }
+    })();
+    expect(error?.message.split('\n')).toHaveLength(7);
+    expect(error?.message).toMatch(/\.\.\.and \d+ more$/);
+  });
+});
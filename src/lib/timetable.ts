@@ -0,0 +1,226 @@
+import Conf from 'conf';
+import { z } from 'zod';
+
+import { normalizeDateCell, normalizeTimeCell, parseCsv } from '../utils/timetable-utils.js';
+import { LocationSchema, PRAYERS, type LocationConfig } from './store.js';
+
+export const TIMETABLE_TIMES = [
+  'Imsak',
+  'Fajr',
+  'Sunrise',
+  'Dhuhr',
+  'Asr',
+  'Maghrib',
+  'Isha',
+] as const;
+export type TimetableTime = (typeof TIMETABLE_TIMES)[number];
+
+const TimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'Expected a 24-hour time like 05:03' });
+
+const DateKeySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Expected a date like 2026-03-01' })
+  .refine(
+    (value) => {
+      const date = new Date(`${value}T00:00:00Z`);
+      return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+    },
+    { message: 'Not a calendar date' },
+  );
+
+const TimetableDaySchema = z.object({
+  Imsak: TimeSchema.optional(),
+  Fajr: TimeSchema,
+  Sunrise: TimeSchema.optional(),
+  Dhuhr: TimeSchema,
+  Asr: TimeSchema,
+  Maghrib: TimeSchema,
+  Isha: TimeSchema,
+  iqamah: z.partialRecord(z.enum(PRAYERS), TimeSchema).optional(),
+});
+
+const TimetableSchema = z.object({
+  source: z.string(),
+  importedAt: z.string(),
+  // The location the timetable was imported for; it is only applied there.
+  location: LocationSchema.optional(),
+  days: z.record(DateKeySchema, TimetableDaySchema),
+});
+
+export type TimetableDay = z.infer<typeof TimetableDaySchema>;
+export type Timetable = z.infer<typeof TimetableSchema>;
+
+const store = new Conf<Partial<Timetable>>({
+  projectName: 'roza-cli',
+  configName: 'timetable',
+  accessPropertiesByDotNotation: false,
+});
+
+const COLUMN_ALIASES: Readonly<Record<string, TimetableTime | 'date'>> = {
+  date: 'date',
+  day: 'date',
+  imsak: 'Imsak',
+  fajr: 'Fajr',
+  subuh: 'Fajr',
+  subh: 'Fajr',
+  sunrise: 'Sunrise',
+  shuruq: 'Sunrise',
+  syuruk: 'Sunrise',
+  dhuhr: 'Dhuhr',
+  zuhr: 'Dhuhr',
+  zohr: 'Dhuhr',
+  dhuhur: 'Dhuhr',
+  zuhur: 'Dhuhr',
+  asr: 'Asr',
+  maghrib: 'Maghrib',
+  isha: 'Isha',
+  isya: 'Isha',
+};
+
+const IQAMAH_SUFFIX = /(iqamah|iqama|jamaat|jamaah|jamah)$/;
+
+type Column =
+  | { readonly kind: 'date' }
+  | { readonly kind: 'start'; readonly time: TimetableTime }
+  | { readonly kind: 'iqamah'; readonly prayer: (typeof PRAYERS)[number] };
+
+const toColumn = (header: string): Column | undefined => {
+  const key = header.toLowerCase().replace(/[^a-z]/g, '');
+  const iqamahBase = IQAMAH_SUFFIX.test(key) ? key.replace(IQAMAH_SUFFIX, '') : undefined;
+  const target = COLUMN_ALIASES[iqamahBase ?? key];
+  if (!target) {
+    return undefined;
+  }
+  if (target === 'date') {
+    return iqamahBase === undefined ? { kind: 'date' } : undefined;
+  }
+  if (iqamahBase === undefined) {
+    return { kind: 'start', time: target };
+  }
+  const prayer = PRAYERS.find((name) => name === target);
+  return prayer ? { kind: 'iqamah', prayer } : undefined;
+};
+
+const MAX_REPORTED_ISSUES = 5;
+
+/**
+ * Parses a mosque timetable CSV with a header row such as
+ * "date,fajr,sunrise,dhuhr,asr,maghrib,isha,fajr iqamah,...". Unknown columns are
+ * ignored; every row is validated and all problems are reported together.
+ */
+export const parseTimetableCsv = (text: string): Record<string, TimetableDay> => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error('Timetable file is empty.');
+  }
+
+  const columns = header.map(toColumn);
+  if (!columns.some((column) => column?.kind === 'date')) {
+    throw new Error('Timetable needs a "date" column.');
+  }
+  const missing = PRAYERS.filter(
+    (prayer) => !columns.some((column) => column?.kind === 'start' && column.time === prayer),
+  );
+  if (missing.length > 0) {
+    throw new Error(`Timetable is missing columns: ${missing.join(', ')}.`);
+  }
+
+  const days: Record<string, TimetableDay> = {};
+  const issues: string[] = [];
+  rows.forEach((cells, idx) => {
+    const rowNumber = idx + 2;
+    let dateKey = '';
+    const day: Record<string, unknown> = {};
+    const iqamah: Record<string, string> = {};
+    columns.forEach((column, col) => {
+      const value = cells[col] ?? '';
+      if (!column || (value === '' && column.kind !== 'date')) {
+        return;
+      }
+      if (column.kind === 'date') {
+        dateKey = normalizeDateCell(value);
+      } else if (column.kind === 'start') {
+        day[column.time] = normalizeTimeCell(value);
+      } else {
+        iqamah[column.prayer] = normalizeTimeCell(value);
+      }
+    });
+    if (Object.keys(iqamah).length > 0) {
+      day.iqamah = iqamah;
+    }
+
+    const parsedDate = DateKeySchema.safeParse(dateKey);
+    const parsedDay = TimetableDaySchema.safeParse(day);
+    const rowIssues = [
+      ...(parsedDate.success
+        ? []
+        : parsedDate.error.issues.map((issue) => `date: ${issue.message}`)),
+      ...(parsedDay.success
+        ? []
+        : parsedDay.error.issues.map((issue) => `${issue.path.join(' ')}: ${issue.message}`)),
+    ];
+    if (parsedDate.success && days[parsedDate.data]) {
+      rowIssues.push(`date: ${parsedDate.data} appears more than once`);
+    }
+
+    if (rowIssues.length > 0) {
+      issues.push(...rowIssues.map((issue) => `Row ${rowNumber}: ${issue}`));
+    } else if (parsedDate.success && parsedDay.success) {
+      days[parsedDate.data] = parsedDay.data;
+    }
+  });
+
+  if (issues.length > 0) {
+    const shown = issues.slice(0, MAX_REPORTED_ISSUES);
+    const more = issues.length - shown.length;
+    throw new Error(
+      ['Invalid timetable:', ...shown, ...(more > 0 ? [`...and ${more} more`] : [])].join('\n'),
+    );
+  }
+  if (Object.keys(days).length === 0) {
+    throw new Error('Timetable has no rows.');
+  }
+
+  return days;
+};
+
+export const readTimetable = (): Timetable | undefined => {
+  const parsed = TimetableSchema.safeParse(store.store);
+  return parsed.success ? parsed.data : undefined;
+};
+
+export interface SaveTimetableOptions {
+  readonly source: string;
+  readonly location?: LocationConfig;
+  readonly replace?: boolean;
+}
+
+/**
+ * Stores imported days. Days are merged into an existing timetable for the same
+ * location unless `replace` is set.
+ */
+export const saveTimetable = (
+  days: Record<string, TimetableDay>,
+  opts: SaveTimetableOptions,
+): Timetable => {
+  const current = readTimetable();
+  const keep = !opts.replace && JSON.stringify(current?.location) === JSON.stringify(opts.location);
+  const next: Timetable = {
+    source: opts.source,
+    importedAt: new Date().toISOString(),
+    location: opts.location,
+    days: { ...(keep ? current?.days : {}), ...days },
+  };
+  store.store = next;
+  return next;
+};
+
+export const clearTimetable = (): number => {
+  const count = Object.keys(readTimetable()?.days ?? {}).length;
+  store.clear();
+  return count;
+};
+
+export const getTimetablePath = (): string => store.path;
@@ -0,0 +1,460 @@
+import {
+  ApiUnreachableError,
+  fetchCalendarByAddress,
+  fetchCalendarByCity,
+  fetchCalendarByCoords,
+  fetchHijriCalendarByAddress,
+  fetchHijriCalendarByCity,
+  fetchHijriCalendarByCoords,
+  fetchTimingsByAddress,
+  fetchTimingsByCity,
+  fetchTimingsByCoords,
+  type MethodTuning,
+  type PrayerData,
+} from './api.js';
+import { findCity } from './gazetteer.js';
+import {
+  convertToHijriDate,
+  hasHijriOverrides,
+  resolveHijriMonthRange,
+  shiftDateKey,
+  toGregorianKey,
+  type HijriSettings,
+} from './hijri.js';
+import {
+  calculatePrayerCalendar,
+  calculatePrayerData,
+  CUSTOM_METHOD_ID,
+  DEFAULT_CUSTOM_ISHA_ANGLE,
+  DEFAULT_HIGH_LATITUDE_RULE,
+  findHighLatitudeAdjustments,
+  type CalculateOptions,
+  type HighLatitudePrayer,
+} from './prayer-calc.js';
+import {
+  TUNE_KEYS,
+  type Coordinates,
+  type CustomMethod,
+  type HighLatitudeRule,
+  type LocationConfig,
+  type UserConfig,
+} from './store.js';
+import { readTimetable, TIMETABLE_TIMES, type Timetable } from './timetable.js';
+
+export interface TimingsContext {
+  readonly location: LocationConfig;
+  readonly coordinates?: Coordinates;
+  readonly method?: number;
+  readonly school?: number;
+  readonly timezone?: string;
+  readonly hijri?: HijriSettings;
+  readonly customMethod?: CustomMethod;
+  readonly highLatitudeRule?: HighLatitudeRule;
+  readonly timetable?: Timetable;
+  readonly offline?: boolean;
+}
+
+export interface HighLatitudeNotice {
+  readonly rule: HighLatitudeRule;
+  readonly prayers: ReadonlyArray<HighLatitudePrayer>;
+  readonly days: number;
+}
+
+const LATITUDE_ADJUSTMENT_METHODS: Readonly<Record<HighLatitudeRule, number>> = {
+  'middle-of-night': 1,
+  'one-seventh': 2,
+  'angle-based': 3,
+};
+
+export interface TimingsOverrides {
+  readonly method?: number;
+  readonly school?: number;
+  readonly highLatitudeRule?: HighLatitudeRule;
+  readonly offline?: boolean;
+}
+
+const resolveCoordinates = (
+  location: LocationConfig,
+  config: UserConfig,
+): Coordinates | undefined => {
+  const saved =
+    JSON.stringify(location) === JSON.stringify(config.location) ? config.coordinates : undefined;
+  if (location.type === 'city' && !saved) {
+    const city = findCity(location.city, location.country);
+    return city && { latitude: city.latitude, longitude: city.longitude, timezone: city.timezone };
+  }
+  if (location.type !== 'coords') {
+    return saved;
+  }
+
+  return {
+    latitude: location.latitude,
+    longitude: location.longitude,
+    timezone: saved?.timezone,
+  };
+};
+
+// An imported timetable only applies to the location it was imported for.
+const resolveTimetable = (location: LocationConfig): Timetable | undefined => {
+  const timetable = readTimetable();
+  if (!timetable?.location) {
+    return timetable;
+  }
+  return JSON.stringify(timetable.location) === JSON.stringify(location) ? timetable : undefined;
+};
+
+export const createTimingsContext = (
+  location: LocationConfig,
+  config: UserConfig,
+  overrides: TimingsOverrides = {},
+): TimingsContext => ({
+  location,
+  coordinates: resolveCoordinates(location, config),
+  method: overrides.method ?? config.method,
+  school: overrides.school ?? config.school,
+  timezone: config.timezone,
+  hijri: {
+    calendar: config.hijriCalendar,
+    adjustment: config.hijriAdjustment,
+    ramadanStarts: config.ramadanStarts,
+  },
+  customMethod: config.customMethod,
+  highLatitudeRule: overrides.highLatitudeRule ?? config.highLatitudeRule,
+  timetable: resolveTimetable(location),
+  offline: overrides.offline,
+});
+
+export const describeLocation = (location: LocationConfig): string => {
+  switch (location.type) {
+    case 'city':
+      return `${location.city}, ${location.country}`;
+    case 'address':
+      return location.address;
+    case 'coords':
+      return location.label ?? `${location.latitude}, ${location.longitude}`;
+  }
+};
+
+const toLocalDateKey = (date: Date): string =>
+  toGregorianKey({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() });
+
+const toDateKey = (item: PrayerData): string => {
+  const { day, month, year } = item.date.gregorian;
+  return `${year}-${String(month.number).padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+// API responses carry the unadjusted Hijri date; relabel them when the user
+// follows a local moon sighting.
+const applyHijriSettings = (
+  items: ReadonlyArray<PrayerData>,
+  settings?: HijriSettings,
+): ReadonlyArray<PrayerData> => {
+  if (!hasHijriOverrides(settings)) {
+    return items;
+  }
+  return items.map((item) => ({
+    ...item,
+    date: { ...item.date, hijri: convertToHijriDate(toDateKey(item), settings) },
+  }));
+};
+
+const applyTimetable = (
+  items: ReadonlyArray<PrayerData>,
+  timetable?: Timetable,
+): ReadonlyArray<PrayerData> => {
+  if (!timetable) {
+    return items;
+  }
+  return items.map((item) => {
+    const day = timetable.days[toDateKey(item)];
+    if (!day) {
+      return item;
+    }
+    const times = Object.fromEntries(
+      TIMETABLE_TIMES.flatMap((key) => (day[key] ? [[key, day[key]]] : [])),
+    );
+    return { ...item, timings: { ...item.timings, ...times } };
+  });
+};
+
+const resolveCalculateOptions = (context: TimingsContext): CalculateOptions => {
+  const { coordinates } = context;
+  if (!coordinates) {
+    throw new Error(
+      `Offline prayer times need coordinates for ${describeLocation(context.location)}. Run schedule once while online.`,
+    );
+  }
+
+  return {
+    latitude: coordinates.latitude,
+    longitude: coordinates.longitude,
+    elevation: context.location.type === 'coords' ? context.location.elevation : undefined,
+    method: context.method,
+    school: context.school,
+    hijri: context.hijri,
+    custom: context.customMethod,
+    highLatitudeRule: context.highLatitudeRule,
+    timezone:
+      context.timezone ?? coordinates.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+  };
+};
+
+const toMethodTuning = (context: TimingsContext): MethodTuning | undefined => {
+  const latitudeAdjustmentMethod = context.highLatitudeRule
+    ? LATITUDE_ADJUSTMENT_METHODS[context.highLatitudeRule]
+    : undefined;
+  const custom = context.customMethod;
+  if (context.method !== CUSTOM_METHOD_ID || !custom) {
+    return latitudeAdjustmentMethod !== undefined ? { latitudeAdjustmentMethod } : undefined;
+  }
+
+  const maghrib = custom.maghribMinutes ? `${custom.maghribMinutes} min` : 'null';
+  const isha =
+    custom.ishaMinutes !== undefined
+      ? `${custom.ishaMinutes} min`
+      : String(custom.ishaAngle ?? DEFAULT_CUSTOM_ISHA_ANGLE);
+  const tune = custom.tune;
+  return {
+    methodSettings: `${custom.fajrAngle},${maghrib},${isha}`,
+    tune: tune ? TUNE_KEYS.map((key) => tune[key] ?? 0).join(',') : undefined,
+    midnightMode: custom.midnightMode === 'jafari' ? 1 : undefined,
+    latitudeAdjustmentMethod,
+  };
+};
+
+const withOfflineFallback = async <T>(
+  context: TimingsContext,
+  online: () => Promise<T>,
+  offline: () => T,
+): Promise<T> => {
+  if (context.offline) {
+    return offline();
+  }
+
+  try {
+    return await online();
+  } catch (error) {
+    if (error instanceof ApiUnreachableError && context.coordinates) {
+      return offline();
+    }
+    throw error;
+  }
+};
+
+export const fetchLocationTimings = async (
+  context: TimingsContext,
+  date: Date = new Date(),
+): Promise<PrayerData> => {
+  const { location, method, school, timezone } = context;
+  const tuning = toMethodTuning(context);
+  switch (location.type) {
+    case 'city':
+      return fetchTimingsByCity({
+        city: location.city,
+        country: location.country,
+        method,
+        school,
+        tuning,
+        date,
+      });
+    case 'address':
+      return fetchTimingsByAddress({ address: location.address, method, school, tuning, date });
+    case 'coords':
+      return fetchTimingsByCoords({
+        latitude: location.latitude,
+        longitude: location.longitude,
+        method,
+        school,
+        tuning,
+        timezone,
+        date,
+      });
+  }
+};
+
+export const fetchLocationCalendar = async (
+  context: TimingsContext,
+  year: number,
+  month: number,
+): Promise<ReadonlyArray<PrayerData>> => {
+  const { location, method, school, timezone } = context;
+  const tuning = toMethodTuning(context);
+  switch (location.type) {
+    case 'city':
+      return fetchCalendarByCity({
+        city: location.city,
+        country: location.country,
+        year,
+        month,
+        method,
+        school,
+        tuning,
+      });
+    case 'address':
+      return fetchCalendarByAddress({
+        address: location.address,
+        year,
+        month,
+        method,
+        school,
+        tuning,
+      });
+    case 'coords':
+      return fetchCalendarByCoords({
+        latitude: location.latitude,
+        longitude: location.longitude,
+        year,
+        month,
+        method,
+        school,
+        tuning,
+        timezone,
+      });
+  }
+};
+
+export const fetchLocationHijriCalendar = async (
+  context: TimingsContext,
+  year: number,
+  month: number,
+): Promise<ReadonlyArray<PrayerData>> => {
+  const { location, method, school, timezone } = context;
+  const tuning = toMethodTuning(context);
+  switch (location.type) {
+    case 'city':
+      return fetchHijriCalendarByCity({
+        city: location.city,
+        country: location.country,
+        year,
+        month,
+        method,
+        school,
+        tuning,
+      });
+    case 'address':
+      return fetchHijriCalendarByAddress({
+        address: location.address,
+        year,
+        month,
+        method,
+        school,
+        tuning,
+      });
+    case 'coords':
+      return fetchHijriCalendarByCoords({
+        latitude: location.latitude,
+        longitude: location.longitude,
+        year,
+        month,
+        method,
+        school,
+        tuning,
+        timezone,
+      });
+  }
+};
+
+export const resolveDailyTimings = async (
+  context: TimingsContext,
+  date: Date = new Date(),
+): Promise<PrayerData> => {
+  const dateKey = toLocalDateKey(date);
+  // Imported days need no API call; the calculator only fills in the date
+  // labels and metadata around the timetable's times.
+  const fromTimetable = Boolean(context.timetable?.days[dateKey] && context.coordinates);
+  const data = await withOfflineFallback(
+    fromTimetable ? { ...context, offline: true } : context,
+    () => fetchLocationTimings(context, date),
+    () => calculatePrayerData(dateKey, resolveCalculateOptions(context)),
+  );
+  return applyHijriSettings(applyTimetable([data], context.timetable), context.hijri)[0];
+};
+
+export const resolveMonthlyCalendar = async (
+  context: TimingsContext,
+  year: number,
+  month: number,
+): Promise<ReadonlyArray<PrayerData>> => {
+  const items = await withOfflineFallback(
+    context,
+    () => fetchLocationCalendar(context, year, month),
+    () => {
+      const days = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      const start = toGregorianKey({ year, month, day: 1 });
+      const dateKeys = Array.from({ length: days }, (_, idx) => shiftDateKey(start, idx));
+      return calculatePrayerCalendar(dateKeys, resolveCalculateOptions(context));
+    },
+  );
+  return applyHijriSettings(applyTimetable(items, context.timetable), context.hijri);
+};
+
+export const resolveDateRangeCalendar = async (
+  context: TimingsContext,
+  start: string,
+  days: number,
+): Promise<ReadonlyArray<PrayerData>> => {
+  const dateKeys = Array.from({ length: days }, (_, idx) => shiftDateKey(start, idx));
+  const months = [...new Set(dateKeys.map((dateKey) => dateKey.slice(0, 7)))];
+  const calendars = await Promise.all(
+    months.map((monthKey) => {
+      const [year, month] = monthKey.split('-').map((part) => Number(part));
+      return resolveMonthlyCalendar(context, year, month);
+    }),
+  );
+  const wanted = new Set(dateKeys);
+  return calendars.flat().filter((item) => wanted.has(toDateKey(item)));
+};
+
+export const resolveHijriMonthCalendar = async (
+  context: TimingsContext,
+  year: number,
+  month: number,
+): Promise<ReadonlyArray<PrayerData>> => {
+  if (hasHijriOverrides(context.hijri, year)) {
+    const { start, days } = resolveHijriMonthRange(year, month, context.hijri);
+    return resolveDateRangeCalendar(context, start, days);
+  }
+
+  const items = await withOfflineFallback(
+    context,
+    () => fetchLocationHijriCalendar(context, year, month),
+    () => {
+      const { start, days } = resolveHijriMonthRange(year, month, context.hijri);
+      const dateKeys = Array.from({ length: days }, (_, idx) => shiftDateKey(start, idx));
+      return calculatePrayerCalendar(dateKeys, resolveCalculateOptions(context));
+    },
+  );
+  return applyTimetable(items, context.timetable);
+};
+
+/**
+ * Reports whether Fajr/Maghrib/Isha in the given days had to be estimated with the
+ * high-latitude rule, using each day's coordinates from the response meta.
+ */
+export const detectHighLatitudeAdjustment = (
+  context: TimingsContext,
+  items: ReadonlyArray<PrayerData>,
+): HighLatitudeNotice | undefined => {
+  const rule = context.highLatitudeRule ?? DEFAULT_HIGH_LATITUDE_RULE;
+  const prayers = new Set<HighLatitudePrayer>();
+  let days = 0;
+  for (const item of items) {
+    if (context.timetable?.days[toDateKey(item)]) {
+      continue;
+    }
+    const adjusted = findHighLatitudeAdjustments(toDateKey(item), {
+      latitude: item.meta.latitude,
+      longitude: item.meta.longitude,
+      timezone: item.meta.timezone,
+      method: item.meta.method.id,
+      custom: context.customMethod,
+      highLatitudeRule: rule,
+    });
+    if (adjusted.length > 0) {
+      days += 1;
+      adjusted.forEach((prayer) => prayers.add(prayer));
+    }
+  }
+
+  return days > 0 ? { rule, prayers: [...prayers], days } : undefined;
+};
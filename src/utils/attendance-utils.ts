@@ -0,0 +1,165 @@
+import pc from 'picocolors';
+
+import { resolveHijriParts, type HijriSettings } from '../lib/hijri.js';
+import {
+  PRAYERS,
+  setAttendance,
+  type DayAttendance,
+  type PrayerName,
+  type PrayerRecord,
+} from '../lib/store.js';
+import { getForbiddenFastDay } from '../lib/sunnah.js';
+import { formatDateKey } from './date-utils.js';
+
+// Exit codes for the non-interactive mark/fast/backfill flags.
+export const EXIT_USAGE = 2;
+export const EXIT_NEEDS_CONFIRMATION = 3;
+
+export class AttendanceFlagError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: number = EXIT_USAGE,
+  ) {
+    super(message);
+    this.name = 'AttendanceFlagError';
+  }
+}
+
+export type AttendanceFlags = {
+  prayers?: string;
+  all?: boolean;
+  unset?: string;
+  fasted?: boolean;
+  notFasted?: boolean;
+  yes?: boolean;
+};
+
+export const hasAttendanceFlags = (flags: AttendanceFlags): boolean =>
+  Boolean(flags.prayers || flags.all || flags.unset || flags.fasted || flags.notFasted);
+
+export const parseStrictDateKey = (value: string): string => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error('Date must be in YYYY-MM-DD format');
+  }
+  const [year, month, day] = value.split('-').map((part) => Number(part));
+  if (month < 1 || month > 12) {
+    throw new Error('Month must be between 01 and 12');
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    throw new Error('Invalid day for the given month');
+  }
+  return value;
+};
+
+export const isFutureDate = (dateKey: string, timezone?: string): boolean =>
+  dateKey > formatDateKey(new Date(), timezone);
+
+/**
+ * Resolves `--date` for the flag mode: defaults to today and refuses future dates.
+ */
+export const resolveFlagDate = (value: string | undefined, timezone?: string): string => {
+  let dateKey: string;
+  try {
+    dateKey = value ? parseStrictDateKey(value) : formatDateKey(new Date(), timezone);
+  } catch (error) {
+    throw new AttendanceFlagError(error instanceof Error ? error.message : 'Invalid date');
+  }
+  if (isFutureDate(dateKey, timezone)) {
+    throw new AttendanceFlagError(`${dateKey} is in the future. Only past days can be logged.`);
+  }
+  return dateKey;
+};
+
+export const parsePrayerList = (value: string): PrayerName[] =>
+  value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((name) => {
+      const prayer = PRAYERS.find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+      if (!prayer) {
+        throw new AttendanceFlagError(
+          `Unknown prayer "${name}". Use: ${PRAYERS.map((p) => p.toLowerCase()).join(', ')}`,
+        );
+      }
+      return prayer;
+    });
+
+const buildPrayerRecord = (flags: AttendanceFlags): PrayerRecord => {
+  if (flags.all && flags.prayers) {
+    throw new AttendanceFlagError('Use either --all or --prayers, not both.');
+  }
+  const unset = flags.unset ? parsePrayerList(flags.unset) : [];
+  const named = flags.prayers ? parsePrayerList(flags.prayers) : [];
+  const conflict = named.find((prayer) => unset.includes(prayer));
+  if (conflict) {
+    throw new AttendanceFlagError(`${conflict} cannot be both marked and unset.`);
+  }
+  // `--all --unset isha` reads as "everything except Isha".
+  const marked = flags.all ? PRAYERS.filter((prayer) => !unset.includes(prayer)) : named;
+
+  return {
+    ...Object.fromEntries(marked.map((prayer) => [prayer, true])),
+    ...Object.fromEntries(unset.map((prayer) => [prayer, false])),
+  };
+};
+
+const resolveFastedFlag = (flags: AttendanceFlags): boolean | undefined => {
+  if (flags.fasted && flags.notFasted) {
+    throw new AttendanceFlagError('Use either --fasted or --not-fasted, not both.');
+  }
+  return flags.fasted ? true : flags.notFasted ? false : undefined;
+};
+
+/**
+ * Writes flag input straight to the store. Prayers not named in the flags keep
+ * their recorded value. Fasts outside Ramadan are logged as voluntary, except
+ * on days when fasting is not allowed, which need `--yes`.
+ */
+export const saveAttendanceFlags = (
+  dateKey: string,
+  flags: AttendanceFlags,
+  settings?: HijriSettings,
+): DayAttendance => {
+  const prayers = buildPrayerRecord(flags);
+  const fasted = resolveFastedFlag(flags);
+  const forbidden = getForbiddenFastDay(resolveHijriParts(dateKey, settings));
+  if (fasted === true && forbidden && !flags.yes) {
+    throw new AttendanceFlagError(
+      `${dateKey} is ${forbidden}, when fasting is not allowed. Pass --yes to log the fast anyway.`,
+      EXIT_NEEDS_CONFIRMATION,
+    );
+  }
+  return setAttendance(dateKey, prayers, fasted);
+};
+
+export const formatAttendanceSummary = (record: DayAttendance): string => {
+  const prayers = PRAYERS.map(
+    (prayer) => `${prayer} ${record.prayers[prayer] === true ? '✓' : '·'}`,
+  ).join('  ');
+  const fasted = record.fasted === undefined ? '' : `  Fast ${record.fasted ? '✓' : '✗'}`;
+  return `${record.date}  ${prayers}${fasted}`;
+};
+
+/**
+ * Reports a failed flag run: usage problems and missing confirmations get their
+ * own exit codes, anything else exits with 1.
+ */
+export const reportAttendanceError = (error: unknown): void => {
+  const message = error instanceof Error ? error.message : 'Failed to save attendance.';
+  console.error(pc.red(message));
+  process.exitCode = error instanceof AttendanceFlagError ? error.exitCode : 1;
+};
+
+export const requireInteractive = (hint: string): boolean => {
+  if (process.stdin.isTTY) {
+    return true;
+  }
+  console.error(pc.red(`No terminal available for prompts. ${hint}`));
+  process.exitCode = EXIT_USAGE;
+  return false;
+};
@@ -0,0 +1,41 @@
+import type { AuditEntry } from '../lib/audit.js';
+import { PRAYERS, type DayAttendance } from '../lib/store.js';
+
+const mark = (value: boolean | undefined): string =>
+  value === true ? '✓' : value === false ? '✗' : '·';
+
+/**
+ * Lists what an entry changed, e.g. "Fajr ·→✓  Fast ✗→✓", or "new"/"removed".
+ */
+export const describeChange = (
+  before: DayAttendance | null,
+  after: DayAttendance | null,
+): string => {
+  if (!before && !after) {
+    return 'no change';
+  }
+  if (!after) {
+    return 'removed';
+  }
+  const changes = PRAYERS.filter((prayer) => before?.prayers[prayer] !== after.prayers[prayer]).map(
+    (prayer) => `${prayer} ${mark(before?.prayers[prayer])}→${mark(after.prayers[prayer])}`,
+  );
+  if (before?.fasted !== after.fasted) {
+    changes.push(`Fast ${mark(before?.fasted)}→${mark(after.fasted)}`);
+  }
+  const summary = changes.length > 0 ? changes.join('  ') : 'no change';
+  return before ? summary : `new  ${summary}`;
+};
+
+export const formatAuditTime = (iso: string): string => iso.slice(0, 16).replace('T', ' ');
+
+export const formatAuditLine = (entry: AuditEntry): string => {
+  const source = entry.revertOf ? `undo #${entry.revertOf}` : entry.source;
+  return [
+    `#${entry.id}`.padEnd(6),
+    formatAuditTime(entry.at),
+    source.padEnd(14),
+    entry.date,
+    describeChange(entry.before, entry.after),
+  ].join('  ');
+};
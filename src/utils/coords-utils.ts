@@ -0,0 +1,30 @@
+const parseBoundedNumber = (value: string, min: number, max: number, label: string): number => {
+  const parsed = Number(value.trim());
+  if (!value.trim() || !Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new Error(`${label} must be a number between ${min} and ${max}`);
+  }
+  return parsed;
+};
+
+export const parseLatitude = (value: string): number =>
+  parseBoundedNumber(value, -90, 90, 'Latitude');
+
+export const parseLongitude = (value: string): number =>
+  parseBoundedNumber(value, -180, 180, 'Longitude');
+
+export const parseElevation = (value: string): number =>
+  parseBoundedNumber(value, -500, 9000, 'Elevation');
+
+/**
+ * Wraps a parser for use as a clack `validate` callback.
+ */
+export const toPromptValidator =
+  (parse: (value: string) => number) =>
+  (value: string | undefined): string | undefined => {
+    try {
+      parse(value ?? '');
+      return undefined;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid value';
+    }
+  };
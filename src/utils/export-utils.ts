@@ -1 +1,121 @@
+import { calcSummary } from '../lib/recap.js';
+import { PRAYERS, type DayAttendance, type StoreState } from '../lib/store.js';
+import { parseStrictDateKey } from './attendance-utils.js';
+
 export const DEFAULT_EXPORT_FILE = 'roza-export.json';
+
+export const EXPORT_FORMATS = ['json', 'csv', 'md'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type DateRange = {
+  from?: string;
+  to?: string;
+};
+
+export const parseExportFormat = (value?: string): ExportFormat => {
+  if (value === undefined) {
+    return 'json';
+  }
+  const format = EXPORT_FORMATS.find((candidate) => candidate === value);
+  if (!format) {
+    throw new Error(`Format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+  return format;
+};
+
+export const getDefaultExportFile = (format: ExportFormat): string =>
+  DEFAULT_EXPORT_FILE.replace(/\.json$/, `.${format}`);
+
+export const parseDateRange = (from?: string, to?: string): DateRange => {
+  const range = {
+    from: from ? parseStrictDateKey(from) : undefined,
+    to: to ? parseStrictDateKey(to) : undefined,
+  };
+  if (range.from && range.to && range.from > range.to) {
+    throw new Error('--from must be on or before --to');
+  }
+  return range;
+};
+
+export const isInRange = (dateKey: string, range: DateRange): boolean =>
+  (!range.from || dateKey >= range.from) && (!range.to || dateKey <= range.to);
+
+/**
+ * Keeps the config and only the attendance days inside the range.
+ */
+export const filterStoreByRange = (state: StoreState, range: DateRange): StoreState => {
+  if (!range.from && !range.to) {
+    return state;
+  }
+  const attendance = Object.fromEntries(
+    Object.entries(state.attendance ?? {}).filter(([dateKey]) => isInRange(dateKey, range)),
+  );
+  return { ...state, attendance };
+};
+
+const csvCell = (value: string): string =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * One row per day: 1/0 per prayer, fasted as 1/0 (empty when not logged).
+ */
+export const toAttendanceCsv = (rows: ReadonlyArray<DayAttendance>): string => {
+  const header = ['date', ...PRAYERS.map((prayer) => prayer.toLowerCase()), 'fasted', 'updatedAt'];
+  const lines = rows.map((row) =>
+    [
+      row.date,
+      ...PRAYERS.map((prayer) => (row.prayers[prayer] ? '1' : '0')),
+      row.fasted === undefined ? '' : row.fasted ? '1' : '0',
+      row.updatedAt,
+    ]
+      .map(csvCell)
+      .join(','),
+  );
+  return `${[header.join(','), ...lines].join('\n')}\n`;
+};
+
+const formatMonthTitle = (monthKey: string): string => {
+  const [year, month] = monthKey.split('-').map((part) => Number(part));
+  return new Intl.DateTimeFormat('en-GB', { month: 'long', year: 'numeric' }).format(
+    new Date(year, month - 1, 1),
+  );
+};
+
+const formatTotals = (rows: ReadonlyArray<DayAttendance>): string => {
+  const summary = calcSummary(rows);
+  const fasted = rows.filter((row) => row.fasted === true).length;
+  return (
+    `**Totals:** ${summary.completed}/${summary.total} prayers (${summary.percent}%), ` +
+    `${summary.perfectDays} perfect days, ${fasted} days fasted`
+  );
+};
+
+/**
+ * A table per month with the recap totals underneath, for notes and issues.
+ */
+export const toAttendanceMarkdown = (rows: ReadonlyArray<DayAttendance>): string => {
+  const months = new Map<string, DayAttendance[]>();
+  for (const row of rows) {
+    const monthKey = row.date.slice(0, 7);
+    months.set(monthKey, [...(months.get(monthKey) ?? []), row]);
+  }
+
+  const sections = [...months].map(([monthKey, monthRows]) =>
+    [
+      `## ${formatMonthTitle(monthKey)}`,
+      '',
+      `| Date | ${PRAYERS.join(' | ')} | Fasted |`,
+      `| --- | ${PRAYERS.map(() => ':---:').join(' | ')} | :---: |`,
+      ...monthRows.map(
+        (row) =>
+          `| ${row.date} | ${PRAYERS.map((prayer) => (row.prayers[prayer] ? '✓' : '')).join(' | ')} | ${
+            row.fasted === undefined ? '' : row.fasted ? '✓' : '✗'
+          } |`,
+      ),
+      '',
+      formatTotals(monthRows),
+    ].join('\n'),
+  );
+
+  return `${['# Roza attendance', formatTotals(rows), ...sections].join('\n\n')}\n`;
+};
@@ -0,0 +1,60 @@
+import { FAST_EXEMPTION_REASONS, type FastExemptionReason } from '../lib/store.js';
+import { parseStrictDateKey } from './attendance-utils.js';
+import { addDays } from './ramadan-utils.js';
+
+// Longest span a single `a..b` range may cover, a little over one Ramadan.
+const MAX_RANGE_DAYS = 31;
+
+export const parseExemptionReason = (value: string): FastExemptionReason => {
+  const reason = FAST_EXEMPTION_REASONS.find((candidate) => candidate === value.toLowerCase());
+  if (!reason) {
+    throw new Error(`Reason must be one of: ${FAST_EXEMPTION_REASONS.join(', ')}`);
+  }
+  return reason;
+};
+
+/**
+ * Parses dates and ranges such as "2026-02-20,2026-02-25..2026-02-27".
+ */
+export const parseDateList = (value: string): string[] => {
+  const dates = new Set<string>();
+  for (const part of value.split(/[\s,]+/).filter(Boolean)) {
+    const [from, to] = part.split('..');
+    const start = parseStrictDateKey(from);
+    const end = to === undefined ? start : parseStrictDateKey(to);
+    if (end < start) {
+      throw new Error(`Range ${part} ends before it starts`);
+    }
+    for (let cursor = start, count = 0; cursor <= end; cursor = addDays(cursor, 1), count += 1) {
+      if (count >= MAX_RANGE_DAYS) {
+        throw new Error(`Range ${part} is longer than ${MAX_RANGE_DAYS} days`);
+      }
+      dates.add(cursor);
+    }
+  }
+  if (dates.size === 0) {
+    throw new Error('Give at least one date in YYYY-MM-DD format');
+  }
+  return [...dates].sort();
+};
+
+export const parseFidyahRate = (value: string): number => {
+  const rate = Number(value);
+  if (!/^\d+(\.\d+)?$/.test(value) || !Number.isFinite(rate)) {
+    throw new Error('Rate must be a non-negative amount, e.g. 5 or 7.50');
+  }
+  return rate;
+};
+
+export const parseCurrency = (value: string): string => {
+  const currency = value.trim();
+  if (!/^\S{1,8}$/.test(currency)) {
+    throw new Error('Currency must be a short code or symbol, e.g. GBP or $');
+  }
+  return /^[a-z]{3}$/i.test(currency) ? currency.toUpperCase() : currency;
+};
+
+export const formatDays = (days: number): string => `${days} ${days === 1 ? 'day' : 'days'}`;
+
+export const formatMoney = (amount: number, currency: string): string =>
+  `${amount.toFixed(2)} ${currency}`;
@@ -0,0 +1,233 @@
+import type { PrayerData } from '../lib/api.js';
+import { getTimezoneOffsetHours } from '../lib/prayer-calc.js';
+import { PRAYERS } from '../lib/store.js';
+import { toDateKeyFromGregorian } from './ramadan-utils.js';
+import { extractTime } from './time-utils.js';
+
+export type IcsOptions = {
+  timezone: string;
+  calendarName: string;
+  // Minutes before each event for a VALARM reminder; omitted means no alarms.
+  alarmMinutes?: number;
+};
+
+const PRAYER_EVENT_MINUTES = 15;
+
+// Times the calculator could not resolve (e.g. '--:--' on white nights) have
+// no valid DTSTART, so those events are left out.
+const CLOCK_TIME = /^\d{2}:\d{2}$/;
+
+export const parseAlarmMinutes = (value: string): number => {
+  const minutes = Number(value);
+  if (!Number.isInteger(minutes) || minutes < 0 || minutes > 180) {
+    throw new Error('Alarm must be an integer between 0 and 180 minutes');
+  }
+  return minutes;
+};
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+
+/**
+ * Folds content lines longer than 75 octets, as RFC 5545 section 3.1 requires.
+ */
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatLocal = (dateKey: string, time: string): string =>
+  `${dateKey.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+const formatUtc = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+const formatOffset = (hours: number): string => {
+  const sign = hours < 0 ? '-' : '+';
+  const minutes = Math.round(Math.abs(hours) * 60);
+  return `${sign}${String(Math.floor(minutes / 60)).padStart(2, '0')}${String(minutes % 60).padStart(2, '0')}`;
+};
+
+const formatLocalInstant = (instant: number, offsetHours: number): string =>
+  formatUtc(new Date(instant + offsetHours * 3_600_000)).replace(/Z$/, '');
+
+/**
+ * Builds a VTIMEZONE covering the exported days. Offsets are sampled daily and
+ * each change is narrowed to the hour, which is enough for DST transitions.
+ */
+const buildTimezone = (timezone: string, dateKeys: ReadonlyArray<string>): string[] => {
+  const hour = 3_600_000;
+  const startOf = (dateKey: string): number => Date.parse(`${dateKey}T00:00:00Z`);
+  const first = startOf(dateKeys[0]) - 24 * hour;
+  const last = startOf(dateKeys[dateKeys.length - 1]) + 48 * hour;
+  const offsetAt = (instant: number): number => getTimezoneOffsetHours(timezone, new Date(instant));
+
+  const initial = offsetAt(first);
+  const transitions: Array<{ at: number; from: number; to: number }> = [];
+  let previous = initial;
+  for (let day = first + 24 * hour; day <= last; day += 24 * hour) {
+    const offset = offsetAt(day);
+    if (offset === previous) {
+      continue;
+    }
+    let at = day - 24 * hour;
+    while (offsetAt(at) === previous) {
+      at += hour;
+    }
+    transitions.push({ at, from: previous, to: offset });
+    previous = offset;
+  }
+
+  const component = (
+    kind: 'STANDARD' | 'DAYLIGHT',
+    start: string,
+    from: number,
+    to: number,
+  ): string[] => [
+    `BEGIN:${kind}`,
+    `DTSTART:${start}`,
+    `TZOFFSETFROM:${formatOffset(from)}`,
+    `TZOFFSETTO:${formatOffset(to)}`,
+    `END:${kind}`,
+  ];
+
+  const offsets = [initial, ...transitions.map((transition) => transition.to)];
+  const standard = Math.min(...offsets);
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timezone}`,
+    ...component(
+      initial > standard ? 'DAYLIGHT' : 'STANDARD',
+      formatLocalInstant(first, initial),
+      initial,
+      initial,
+    ),
+    ...transitions.flatMap((transition) =>
+      component(
+        transition.to > standard ? 'DAYLIGHT' : 'STANDARD',
+        formatLocalInstant(transition.at, transition.from),
+        transition.from,
+        transition.to,
+      ),
+    ),
+    'END:VTIMEZONE',
+  ];
+};
+
+const buildEvent = (
+  uid: string,
+  summary: string,
+  dateKey: string,
+  time: string,
+  options: IcsOptions,
+  stamp: string,
+  description?: string,
+): string[] =>
+  CLOCK_TIME.test(time)
+    ? [
+        'BEGIN:VEVENT',
+        `UID:${uid}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;TZID=${options.timezone}:${formatLocal(dateKey, time)}`,
+        `DURATION:PT${PRAYER_EVENT_MINUTES}M`,
+        `SUMMARY:${escapeText(summary)}`,
+        ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+        'TRANSP:TRANSPARENT',
+        ...(options.alarmMinutes !== undefined
+          ? [
+              'BEGIN:VALARM',
+              'ACTION:DISPLAY',
+              `DESCRIPTION:${escapeText(summary)}`,
+              `TRIGGER:-PT${options.alarmMinutes}M`,
+              'END:VALARM',
+            ]
+          : []),
+        'END:VEVENT',
+      ]
+    : [];
+
+/**
+ * Renders the days as an RFC 5545 calendar: one event per prayer, plus Imsak
+ * and Iftar events on Ramadan days.
+ */
+export const buildScheduleIcs = (
+  items: ReadonlyArray<PrayerData>,
+  options: IcsOptions,
+): { content: string; events: number } => {
+  const stamp = formatUtc(new Date());
+  const dateKeys = items.map((item) => toDateKeyFromGregorian(item.date.gregorian.date));
+  const events: string[][] = [];
+
+  items.forEach((item, idx) => {
+    const dateKey = dateKeys[idx];
+    const isRamadan = item.date.hijri.month.number === 9;
+    if (isRamadan) {
+      events.push(
+        buildEvent(
+          `${dateKey}-imsak@roza-cli`,
+          'Imsak',
+          dateKey,
+          extractTime(item.timings.Imsak),
+          options,
+          stamp,
+          'Suhoor ends',
+        ),
+      );
+    }
+    for (const prayer of PRAYERS) {
+      events.push(
+        buildEvent(
+          `${dateKey}-${prayer.toLowerCase()}@roza-cli`,
+          prayer,
+          dateKey,
+          extractTime(item.timings[prayer]),
+          options,
+          stamp,
+        ),
+      );
+    }
+    if (isRamadan) {
+      events.push(
+        buildEvent(
+          `${dateKey}-iftar@roza-cli`,
+          'Iftar',
+          dateKey,
+          extractTime(item.timings.Maghrib),
+          options,
+          stamp,
+          `Ramadan ${item.date.hijri.day}: break the fast at Maghrib`,
+        ),
+      );
+    }
+  });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//roza-cli//Prayer Times//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName)}`,
+    `X-WR-TIMEZONE:${options.timezone}`,
+    ...(dateKeys.length > 0 ? buildTimezone(options.timezone, dateKeys) : []),
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+  return {
+    content: `${lines.map(foldLine).join('\r\n')}\r\n`,
+    events: events.filter((event) => event.length > 0).length,
+  };
+};
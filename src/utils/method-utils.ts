@@ -0,0 +1,82 @@
+import { DEFAULT_CUSTOM_ISHA_ANGLE } from '../lib/prayer-calc.js';
+import { TUNE_KEYS, type CustomMethod, type TuneKey } from '../lib/store.js';
+
+type Tune = NonNullable<CustomMethod['tune']>;
+
+const SAFETY_PRAYERS: ReadonlyArray<TuneKey> = ['Fajr', 'Dhuhr', 'Asr', 'Maghrib', 'Isha'];
+
+export const parseAngle = (value: string): number => {
+  const angle = Number(value.trim());
+  if (!value.trim() || !Number.isFinite(angle) || angle <= 0 || angle > 30) {
+    throw new Error('Angle must be a number between 0 and 30 degrees');
+  }
+  return angle;
+};
+
+export const parseMinutes = (value: string, max = 180): number => {
+  const minutes = Number(value.trim() || '0');
+  if (!Number.isInteger(minutes) || minutes < 0 || minutes > max) {
+    throw new Error(`Minutes must be a whole number between 0 and ${max}`);
+  }
+  return minutes;
+};
+
+const findTuneKey = (name: string): TuneKey | undefined =>
+  TUNE_KEYS.find((key) => key.toLowerCase() === name.trim().toLowerCase());
+
+/**
+ * Parses minute offsets as either a single number applied to the five prayers
+ * ("2") or a list of prayer=minutes pairs ("Fajr=2, Isha=-1").
+ */
+export const parseTune = (value: string): Tune | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (/^[+-]?\d+$/.test(trimmed)) {
+    const minutes = Number(trimmed);
+    return minutes === 0
+      ? undefined
+      : Object.fromEntries(SAFETY_PRAYERS.map((key) => [key, minutes]));
+  }
+
+  const tune: Tune = {};
+  for (const part of trimmed.split(',')) {
+    const match = /^\s*([A-Za-z]+)\s*[=:]\s*([+-]?\d+)\s*$/.exec(part);
+    const key = match ? findTuneKey(match[1]) : undefined;
+    if (!match || !key) {
+      throw new Error(`Invalid offset "${part.trim()}". Use e.g. Fajr=2, Isha=-1`);
+    }
+    const minutes = Number(match[2]);
+    if (Math.abs(minutes) > 60) {
+      throw new Error('Offsets must be between -60 and 60 minutes');
+    }
+    tune[key] = minutes;
+  }
+  return tune;
+};
+
+export const formatTune = (tune?: Tune): string =>
+  TUNE_KEYS.filter((key) => tune?.[key])
+    .map((key) => `${key}=${tune?.[key]}`)
+    .join(', ');
+
+export const describeCustomMethod = (custom: CustomMethod): string => {
+  const isha =
+    custom.ishaMinutes !== undefined
+      ? `Isha ${custom.ishaMinutes} min`
+      : `Isha ${custom.ishaAngle ?? DEFAULT_CUSTOM_ISHA_ANGLE}°`;
+  const parts = [`Fajr ${custom.fajrAngle}°`, isha];
+  if (custom.maghribMinutes) {
+    parts.push(`Maghrib +${custom.maghribMinutes} min`);
+  }
+  const tune = formatTune(custom.tune);
+  if (tune) {
+    parts.push(`offsets ${tune}`);
+  }
+  if (custom.midnightMode === 'jafari') {
+    parts.push('Jafari midnight');
+  }
+  return parts.join(', ');
+};
@@ -0,0 +1,50 @@
+import { NOTIFY_EVENTS, type NotificationSettings, type NotifyEvent } from '../lib/store.js';
+
+type Offsets = NonNullable<NotificationSettings['before']>;
+
+const findEvent = (name: string): NotifyEvent | undefined =>
+  NOTIFY_EVENTS.find((event) => event.toLowerCase() === name.trim().toLowerCase());
+
+export const parseNotifyEvents = (value: string): NotifyEvent[] => {
+  if (value.trim().toLowerCase() === 'none') {
+    return [];
+  }
+  return value
+    .split(',')
+    .filter((part) => part.trim())
+    .map((part) => {
+      const event = findEvent(part);
+      if (!event) {
+        throw new Error(`Unknown event "${part.trim()}". Use: ${NOTIFY_EVENTS.join(', ')}`);
+      }
+      return event;
+    });
+};
+
+/**
+ * Parses reminders such as "Maghrib=10, Imsak=15" (minutes before each event).
+ */
+export const parseNotifyOffsets = (value: string): Offsets => {
+  const offsets: Offsets = {};
+  for (const part of value.split(',').filter((item) => item.trim())) {
+    const match = /^\s*([A-Za-z]+)\s*[=:]\s*(\d+)\s*$/.exec(part);
+    const event = match ? findEvent(match[1]) : undefined;
+    if (!match || !event) {
+      throw new Error(`Invalid reminder "${part.trim()}". Use e.g. Maghrib=10, Imsak=15`);
+    }
+    const minutes = Number(match[2]);
+    if (minutes < 1 || minutes > 180) {
+      throw new Error('Reminders must be between 1 and 180 minutes before the event');
+    }
+    offsets[event] = minutes;
+  }
+  return offsets;
+};
+
+export const describeNotifySettings = (settings: NotificationSettings): string => {
+  const events = settings.events.length > 0 ? settings.events.join(', ') : 'none';
+  const reminders = NOTIFY_EVENTS.filter((event) => settings.before?.[event])
+    .map((event) => `${settings.before?.[event]} min before ${event}`)
+    .join(', ');
+  return reminders ? `${events}; ${reminders}` : events;
+};
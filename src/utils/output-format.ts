@@ -0,0 +1,91 @@
+import type { HijriDate, PrayerTimings } from '../lib/api.js';
+import { PRAYERS, type DayAttendance, type PrayerName } from '../lib/store.js';
+import { extractTime } from './time-utils.js';
+
+export const OUTPUT_FORMATS = ['table', 'plain', 'json'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type OutputOptions = {
+  json?: boolean;
+  format?: string;
+};
+
+export const resolveOutputFormat = (options: OutputOptions): OutputFormat => {
+  if (options.json) {
+    if (options.format && options.format !== 'json') {
+      throw new Error('Use either --json or --format, not both.');
+    }
+    return 'json';
+  }
+  if (options.format === undefined) {
+    return 'table';
+  }
+  const format = OUTPUT_FORMATS.find((candidate) => candidate === options.format);
+  if (!format) {
+    throw new Error(`Format must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return format;
+};
+
+export const SCHEDULE_TIMES = [
+  'Imsak',
+  'Fajr',
+  'Sunrise',
+  'Dhuhr',
+  'Asr',
+  'Maghrib',
+  'Isha',
+] as const satisfies ReadonlyArray<keyof PrayerTimings>;
+
+export type TimingsJson = Record<(typeof SCHEDULE_TIMES)[number], string>;
+
+export type HijriJson = {
+  day: number;
+  month: number;
+  monthName: string;
+  year: number;
+};
+
+export type AttendanceJson = {
+  date: string;
+  prayers: Record<PrayerName, boolean>;
+  fasted: boolean | null;
+};
+
+export type RateJson = {
+  percent: number;
+  completed: number;
+  total: number;
+};
+
+/**
+ * Times as bare 24-hour "HH:MM" strings, without the API's timezone suffix.
+ */
+export const toTimingsJson = (timings: PrayerTimings): TimingsJson =>
+  Object.fromEntries(SCHEDULE_TIMES.map((key) => [key, extractTime(timings[key])])) as TimingsJson;
+
+export const toHijriJson = (hijri: HijriDate): HijriJson => ({
+  day: Number(hijri.day),
+  month: hijri.month.number,
+  monthName: hijri.month.en,
+  year: Number(hijri.year),
+});
+
+export const toAttendanceJson = (row: DayAttendance): AttendanceJson => ({
+  date: row.date,
+  prayers: Object.fromEntries(
+    PRAYERS.map((prayer) => [prayer, row.prayers[prayer] === true]),
+  ) as Record<PrayerName, boolean>,
+  fasted: row.fasted ?? null,
+});
+
+export const printJson = (payload: unknown): void => {
+  console.log(JSON.stringify(payload, null, 2));
+};
+
+/**
+ * Prints tab-separated rows without colors, for `cut`, `awk` and friends.
+ */
+export const printPlain = (rows: ReadonlyArray<ReadonlyArray<string | number>>): void => {
+  rows.forEach((row) => console.log(row.join('\t')));
+};
@@ -0,0 +1,142 @@
+import type { PrayerTimings } from '../lib/api.js';
+import { PRAYERS, type PrayerName } from '../lib/store.js';
+import { extractTime, parseTimeToMinutes } from './time-utils.js';
+
+export type PrayerStatus = {
+  current?: PrayerName;
+  next?: PrayerName;
+  nextTime?: string;
+  minutesAway?: number;
+};
+
+export type NowInTimezone = {
+  label: string;
+  // Minutes since midnight, with seconds as the fractional part.
+  minutes: number;
+};
+
+export const getNowInTimezone = (timezone?: string): NowInTimezone => {
+  const date = new Date();
+  if (timezone) {
+    try {
+      const formatter = new Intl.DateTimeFormat('en-GB', {
+        timeZone: timezone,
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        hour12: false,
+      });
+
+      const parts = formatter.formatToParts(date);
+      const hourPart = parts.find((part) => part.type === 'hour')?.value;
+      const minutePart = parts.find((part) => part.type === 'minute')?.value;
+      const secondPart = parts.find((part) => part.type === 'second')?.value ?? '0';
+
+      if (hourPart && minutePart) {
+        const hour = Number(hourPart) % 24;
+        const minute = Number(minutePart);
+        return {
+          label: `${String(hour).padStart(2, '0')}:${minutePart.padStart(2, '0')}`,
+          minutes: hour * 60 + minute + Number(secondPart) / 60,
+        };
+      }
+    } catch {
+      // Fallback to local time below.
+    }
+  }
+
+  const hour = date.getHours();
+  const minute = date.getMinutes();
+  return {
+    label: `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`,
+    minutes: hour * 60 + minute + date.getSeconds() / 60,
+  };
+};
+
+export const formatDuration = (totalMinutes?: number): string => {
+  if (totalMinutes === undefined) {
+    return '--';
+  }
+
+  const minutes = Math.max(0, Math.round(totalMinutes));
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+  if (hours > 0) {
+    return `${hours}h ${remainder}m`;
+  }
+  return `${remainder}m`;
+};
+
+export const formatCountdown = (totalMinutes: number): string => {
+  const seconds = Math.max(0, Math.round(totalMinutes * 60));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return [hours, minutes, seconds % 60].map((part) => String(part).padStart(2, '0')).join(':');
+};
+
+/**
+ * Works out the current and next prayer. After Isha the next prayer is Fajr;
+ * pass tomorrow's Fajr to count down to it instead of reusing today's time.
+ */
+export const computePrayerStatus = (
+  timings: PrayerTimings,
+  nowMinutes: number,
+  tomorrowFajr?: string,
+): PrayerStatus => {
+  const minutesByPrayer: Record<PrayerName, number | null> = {
+    Fajr: parseTimeToMinutes(timings.Fajr),
+    Dhuhr: parseTimeToMinutes(timings.Dhuhr),
+    Asr: parseTimeToMinutes(timings.Asr),
+    Maghrib: parseTimeToMinutes(timings.Maghrib),
+    Isha: parseTimeToMinutes(timings.Isha),
+  };
+
+  let next: PrayerName | undefined;
+  let nextMinutes: number | undefined;
+  let nextTime: string | undefined;
+
+  for (const prayer of PRAYERS) {
+    const minutes = minutesByPrayer[prayer];
+    if (minutes === null) {
+      continue;
+    }
+
+    if (nowMinutes < minutes) {
+      next = prayer;
+      nextMinutes = minutes;
+      nextTime = extractTime(timings[prayer]);
+      break;
+    }
+  }
+
+  if (!next) {
+    const fajrTime = tomorrowFajr ?? timings.Fajr;
+    const fajrMinutes = parseTimeToMinutes(fajrTime);
+    if (fajrMinutes !== null) {
+      next = 'Fajr';
+      nextMinutes = fajrMinutes + 24 * 60;
+      nextTime = extractTime(fajrTime);
+    }
+  }
+
+  let current: PrayerName | undefined;
+  for (const prayer of PRAYERS) {
+    const minutes = minutesByPrayer[prayer];
+    if (minutes === null) {
+      continue;
+    }
+
+    if (nowMinutes >= minutes) {
+      current = prayer;
+    }
+  }
+
+  const minutesAway = nextMinutes !== undefined ? nextMinutes - nowMinutes : undefined;
+
+  return {
+    current,
+    next,
+    nextTime,
+    minutesAway,
+  };
+};
@@ -0,0 +1,64 @@
+import type { QadaCounts } from '../lib/qada.js';
+import { PRAYERS, type PrayerCounts } from '../lib/store.js';
+import { parsePrayerList } from './attendance-utils.js';
+
+const parseCount = (value: string, label: string): number => {
+  const count = Number(value);
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(count)) {
+    throw new Error(`${label} must be a non-negative whole number`);
+  }
+  return count;
+};
+
+/**
+ * Parses a starting balance: one number for all five prayers ("300") or
+ * per-prayer counts ("fajr=120,asr=90"). Prayers left out are set to 0.
+ */
+export const parseQadaBalance = (value: string): PrayerCounts => {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    const count = parseCount(trimmed, 'Balance');
+    return Object.fromEntries(PRAYERS.map((prayer) => [prayer, count]));
+  }
+
+  const counts: PrayerCounts = {};
+  for (const part of trimmed.split(/[\s,]+/).filter(Boolean)) {
+    const [name, raw] = part.split('=');
+    if (raw === undefined) {
+      throw new Error(`Use prayer=count, e.g. fajr=120 (got "${part}")`);
+    }
+    const [prayer] = parsePrayerList(name);
+    counts[prayer] = parseCount(raw, prayer);
+  }
+  return counts;
+};
+
+/**
+ * Turns "fajr,asr" and a count into make-up counts. A prayer named twice
+ * counts twice.
+ */
+export const parseQadaMakeups = (value: string, count = 1): PrayerCounts => {
+  const counts: PrayerCounts = {};
+  for (const prayer of parsePrayerList(value)) {
+    counts[prayer] = (counts[prayer] ?? 0) + count;
+  }
+  if (Object.keys(counts).length === 0) {
+    throw new Error('Name at least one prayer, e.g. fajr,asr');
+  }
+  return counts;
+};
+
+export const parsePositiveNumber = (value: string, label: string): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${label} must be a positive number`);
+  }
+  return parsed;
+};
+
+export const formatCounts = (counts: PrayerCounts | QadaCounts): string => {
+  const parts = PRAYERS.filter((prayer) => (counts[prayer] ?? 0) > 0).map(
+    (prayer) => `${prayer} ${counts[prayer]}`,
+  );
+  return parts.length > 0 ? parts.join(', ') : 'none';
+};
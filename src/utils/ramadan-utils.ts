@@ -1,10 +1,7 @@
-import {
-  fetchHijriByDate,
-  fetchHijriCalendarByAddress,
-  fetchHijriCalendarByCity,
-  type PrayerData,
-} from '../lib/api.js';
-import type { LocationConfig } from '../lib/store.js';
+import type { PrayerData } from '../lib/api.js';
+import { resolveHijriParts, type HijriSettings } from '../lib/hijri.js';
+import type { UserConfig } from '../lib/store.js';
+import { resolveHijriMonthCalendar, type TimingsContext } from '../lib/timings.js';
 
 export const parseDateKey = (value: string): string => {
   if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
@@ -59,36 +56,26 @@ export const formatDateLabel = (dateKey: string): string => {
 };
 
 export const resolveRamadanCalendar = async (
-  location: LocationConfig,
+  context: TimingsContext,
   year: number,
-  method?: number,
-  school?: number,
-): Promise<ReadonlyArray<PrayerData>> => {
-  if (location.type === 'city') {
-    return fetchHijriCalendarByCity({
-      city: location.city,
-      country: location.country,
-      year,
-      month: 9,
-      method,
-      school,
-    });
-  }
+): Promise<ReadonlyArray<PrayerData>> => resolveHijriMonthCalendar(context, year, 9);
 
-  return fetchHijriCalendarByAddress({
-    address: location.address,
-    year,
-    month: 9,
-    method,
-    school,
-  });
-};
+export const toHijriSettings = (config: UserConfig): HijriSettings => ({
+  calendar: config.hijriCalendar,
+  adjustment: config.hijriAdjustment,
+  ramadanStarts: config.ramadanStarts,
+});
 
-export const isRamadanDate = async (dateKey: string): Promise<boolean> => {
-  try {
-    const converted = await fetchHijriByDate(dateKey);
-    return converted.hijri.month.number === 9;
-  } catch {
-    return false;
+export const parseHijriAdjustment = (value: string): number => {
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < -2 || days > 2) {
+    throw new Error('Hijri adjustment must be an integer between -2 and 2');
   }
+  return days;
 };
+
+export const isRamadanDate = (dateKey: string, settings?: HijriSettings): boolean =>
+  resolveHijriParts(dateKey, settings).month === 9;
+
+export const getHijriYear = (dateKey: string, settings?: HijriSettings): number =>
+  resolveHijriParts(dateKey, settings).year;
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import { normalizeDateCell, normalizeTimeCell, parseCsv } from './timetable-utils.js';
+
+describe('parseCsv', () => {
+  it('splits rows and trims cells', () => {
+    expect(parseCsv('date, fajr ,dhuhr\n2026-03-01,05:03, 12:15\n')).toEqual([
+      ['date', 'fajr', 'dhuhr'],
+      ['2026-03-01', '05:03', '12:15'],
+    ]);
+  });
+
+  it('accepts semicolons, CRLF line endings and a byte order mark', () => {
+    expect(parseCsv('\uFEFFdate;fajr\r\n2026-03-01;05:03\r\n')).toEqual([
+      ['date', 'fajr'],
+      ['2026-03-01', '05:03'],
+    ]);
+  });
+
+  it('keeps commas, quotes and line breaks inside quoted cells', () => {
+    expect(parseCsv('note,fajr\n"Jumu\'ah, ""main"" hall\nupstairs",05:03')).toEqual([
+      ['note', 'fajr'],
+      ['Jumu\'ah, "main" hall\nupstairs', '05:03'],
+    ]);
+  });
+
+  it('drops blank lines but keeps rows with some empty cells', () => {
+    expect(parseCsv('a,b\n\n , \n1,\n')).toEqual([
+      ['a', 'b'],
+      ['1', ''],
+    ]);
+  });
+
+  it('returns no rows for empty input', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+describe('normalizeTimeCell', () => {
+  it.each([
+    ['5:03', '05:03'],
+    ['05:03:00', '05:03'],
+    ['5.03', '05:03'],
+    ['5:03 pm', '17:03'],
+    ['12:10 PM', '12:10'],
+    ['12:30 a.m.', '00:30'],
+    ['18:45', '18:45'],
+  ])('reads %s as %s', (input, expected) => {
+    expect(normalizeTimeCell(input)).toBe(expected);
+  });
+
+  it('returns other values trimmed and unchanged', () => {
+    expect(normalizeTimeCell(' after sunrise ')).toBe('after sunrise');
+    expect(normalizeTimeCell('25:99')).toBe('25:99');
+  });
+});
+
+describe('normalizeDateCell', () => {
+  it.each([
+    ['2026-03-01', '2026-03-01'],
+    ['2026/3/1', '2026-03-01'],
+    ['2026.03.01', '2026-03-01'],
+    ['01/03/2026', '2026-03-01'],
+    ['1-3-2026', '2026-03-01'],
+  ])('reads %s as %s', (input, expected) => {
+    expect(normalizeDateCell(input)).toBe(expected);
+  });
+
+  it('returns other values trimmed and unchanged', () => {
+    expect(normalizeDateCell(' 1 March 2026 ')).toBe('1 March 2026');
+  });
+});
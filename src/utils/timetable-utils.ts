@@ -0,0 +1,83 @@
+/**
+ * Splits CSV text into rows of trimmed cells. Handles quoted cells with embedded
+ * commas and doubled quotes; blank lines are dropped.
+ */
+export const parseCsv = (text: string): ReadonlyArray<ReadonlyArray<string>> => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const pushRow = () => {
+    row.push(cell.trim());
+    if (row.some((value) => value !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  const source = text.replace(/^\uFEFF/, '');
+  for (let idx = 0; idx < source.length; idx += 1) {
+    const char = source[idx];
+    if (quoted) {
+      if (char === '"' && source[idx + 1] === '"') {
+        cell += '"';
+        idx += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n') {
+      pushRow();
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  pushRow();
+
+  return rows;
+};
+
+/**
+ * Normalizes "5:03", "05:03:00" or "5:03 pm" to 24-hour "HH:MM". Values that do
+ * not look like a time are returned unchanged so validation can report them.
+ */
+export const normalizeTimeCell = (value: string): string => {
+  const match = /^(\d{1,2})[:.](\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?$/i.exec(value.trim());
+  if (!match) {
+    return value.trim();
+  }
+
+  let hour = Number(match[1]);
+  const suffix = match[3]?.toLowerCase().replace(/\./g, '');
+  if (suffix && hour >= 1 && hour <= 12) {
+    hour = (hour % 12) + (suffix === 'pm' ? 12 : 0);
+  }
+  return `${String(hour).padStart(2, '0')}:${match[2]}`;
+};
+
+/**
+ * Normalizes "YYYY-MM-DD", "YYYY/MM/DD" or day-first "DD/MM/YYYY" to a date key.
+ * Values in any other shape are returned unchanged.
+ */
+export const normalizeDateCell = (value: string): string => {
+  const trimmed = value.trim();
+  const isoMatch = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(trimmed);
+  if (isoMatch) {
+    return `${isoMatch[1]}-${isoMatch[2].padStart(2, '0')}-${isoMatch[3].padStart(2, '0')}`;
+  }
+
+  const dayFirstMatch = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/.exec(trimmed);
+  if (dayFirstMatch) {
+    return `${dayFirstMatch[3]}-${dayFirstMatch[2].padStart(2, '0')}-${dayFirstMatch[1].padStart(2, '0')}`;
+  }
+
+  return trimmed;
+};